@@ -1,19 +1,28 @@
-from fastapi import FastAPI
+from fastapi import FastAPI, Request
+from fastapi.encoders import jsonable_encoder
 from fastapi.middleware.cors import CORSMiddleware
+from fastapi.responses import StreamingResponse
 from pydantic import BaseModel
+from starlette.concurrency import run_in_threadpool
 from predictor_module import run_pivot_prediction, get_entry_confirmation, get_support_resistance
 from backtester import run_backtest
 import numpy as np
 import pandas as pd
 import pytz
+import asyncio
+import json
 import math
+import os
 from collections import defaultdict, deque
 
 app = FastAPI()
 
 app.add_middleware(
     CORSMiddleware,
-    allow_origins=["http://localhost:3000"],
+    # next dev, and the desktop app's bundled `next start` (frontend/electron/main.js)
+    allow_origins=os.environ.get(
+        "MURLI_CORS_ORIGINS", "http://localhost:3000,http://localhost:3939,http://127.0.0.1:3939"
+    ).split(","),
     allow_credentials=True,
     allow_methods=["*"],
     allow_headers=["*"],
@@ -21,12 +30,20 @@ app.add_middleware(
 
 PREDICTION_BUFFERS: dict[tuple, deque] = defaultdict(lambda: deque(maxlen=10))
 PREV_REGIMES: dict[tuple, str | None] = defaultdict(lambda: None)
+# Last bar each buffer voted on; polls and streams of the same bar don't vote again
+LAST_BARS: dict[tuple, pd.Timestamp] = {}
+
+
+@app.get("/health")
+def health():
+    return {"status": "ok"}
 
 
 class PredictRequest(BaseModel):
     symbol: str
     intervals: list[str] = ["1h", "4h"]
     period_map: dict = {"1h": "15d", "4h": "30d"}
+    consensus_intervals: list[str] | None = None  # defaults to all intervals
 
 
 def safe_float(val):
@@ -48,6 +65,44 @@ def compute_macd(close, fast=12, slow=26, signal=9):
     return macd, macd_signal
 
 
+def pivot_details(waves, data, start_idx):
+    """Wave metrics for each pivot inside the charted window. Each pivot's
+    metrics describe the wave that ends at it, so the first pivot of the
+    series has no height, duration or move."""
+    if not waves or len(waves.get("all_pivot_indices", [])) == 0:
+        return []
+    indices = waves["all_pivot_indices"]
+    values = waves["all_pivot_values"]
+    types = waves["pivot_types"]
+    heights = waves["wave_heights"]
+    durations = waves.get("wave_durations")
+    slopes = waves.get("wave_slopes")
+    volumes = waves.get("wave_volumes")
+    confidences = waves.get("confidence_scores")
+
+    details = []
+    for k, idx in enumerate(indices):
+        idx = int(idx)
+        if not start_idx <= idx < len(data):
+            continue
+        value = float(values[k])
+        prev_value = float(values[k - 1]) if k else None
+        details.append({
+            "index": idx - start_idx,
+            "time": data.index[idx].isoformat(),
+            "type": "Peak" if types[k] > 0 else "Trough",
+            "value": safe_float(value),
+            "height": safe_float(heights[k]) if k else None,
+            "duration_bars": int(durations[k]) if k and durations is not None else None,
+            "pct_move": safe_float((value - prev_value) / prev_value * 100) if prev_value else None,
+            "slope": safe_float(slopes[k]) if k and slopes is not None else None,
+            "volume": safe_float(volumes[k]) if k and volumes is not None else None,
+            "confidence": safe_float(confidences[k]) if confidences is not None else None,
+            "prev_time": data.index[int(indices[k - 1])].isoformat() if k else None,
+        })
+    return details
+
+
 @app.post("/predict")
 def predict(req: PredictRequest):
     consensus = {}
@@ -59,7 +114,8 @@ def predict(req: PredictRequest):
     for ivl in req.intervals:
         period = req.period_map.get(ivl, "30d")
         buf_key = (req.symbol, ivl)
-        pred_buffer = PREDICTION_BUFFERS[buf_key]
+        # Smoothed on a copy, which replaces the shared buffer only on a new bar
+        pred_buffer = deque(PREDICTION_BUFFERS[buf_key], maxlen=PREDICTION_BUFFERS[buf_key].maxlen)
         prev_regime = PREV_REGIMES[buf_key]
 
         pred, data, waves = run_pivot_prediction(
@@ -68,7 +124,6 @@ def predict(req: PredictRequest):
             prev_regime=prev_regime,
         )
         predictions[ivl] = pred
-        PREV_REGIMES[buf_key] = pred.get('regime', prev_regime)
         name = pred.get("regime", "Unknown")
         consensus[ivl] = name
 
@@ -77,6 +132,11 @@ def predict(req: PredictRequest):
         if hasattr(data.index, 'tz') and data.index.tz is not None:
             data.index = data.index.tz_localize(None)
 
+        if not data.empty and data.index[-1] != LAST_BARS.get(buf_key):
+            PREDICTION_BUFFERS[buf_key] = pred_buffer
+            PREV_REGIMES[buf_key] = pred.get('regime', prev_regime)
+            LAST_BARS[buf_key] = data.index[-1]
+
         stored_data[ivl] = data
         stored_waves[ivl] = waves
 
@@ -139,19 +199,24 @@ def predict(req: PredictRequest):
         # Projected time for next pivot
         bars_ahead = int(round(pred.get('estimated_index_offset', 0) or 0))
         projected_time_et = None
+        projected_at = None
         if not data_window.empty and bars_ahead:
             last_time = data_window.index[-1]
             if isinstance(last_time, pd.Timestamp) and not pd.isna(last_time):
                 if ivl.endswith('m'):
                     delta = pd.Timedelta(minutes=bars_ahead * int(ivl[:-1]))
+                elif ivl.endswith('d'):
+                    delta = pd.Timedelta(days=bars_ahead * int(ivl[:-1]))
                 else:
                     delta = pd.Timedelta(hours=bars_ahead * int(ivl[:-1]))
                 eastern = pytz.timezone("US/Eastern")
                 if last_time.tzinfo is None:
-                    last_time = last_time.tz_localize('UTC')
+                    # Bars are naive ET wall time; the tz was stripped above
+                    last_time = last_time.tz_localize(eastern)
                 next_time = last_time + delta
                 if isinstance(next_time, pd.Timestamp) and not pd.isna(next_time):
                     projected_time_et = next_time.astimezone(eastern).strftime("%H:%M")
+                    projected_at = next_time.astimezone(eastern).isoformat()
 
         data_window = data_window.replace([np.inf, -np.inf], np.nan).ffill().bfill()
         ohlcv = data_window.reset_index().to_dict(orient="records")
@@ -183,9 +248,11 @@ def predict(req: PredictRequest):
             "ohlcv": ohlcv,
             "peaks": peaks,
             "troughs": troughs,
+            "waves": pivot_details(waves, data, start_idx),
             "latest_price": latest_price,
             "latest_timestamp": latest_timestamp,
             "projected_time_et": projected_time_et,
+            "projected_at": projected_at,
             "atr": safe_float(last_atr),
             "atr_ratio": safe_float(atr_ratio),
             "low_volatility": low_volatility,
@@ -193,25 +260,26 @@ def predict(req: PredictRequest):
         }
 
     # Consensus — requires >= 2 of N timeframes agreeing on same direction
+    consensus_ivls = [ivl for ivl in (req.intervals if req.consensus_intervals is None else req.consensus_intervals) if ivl in interval_results]
     valid_types = [
-        consensus[ivl] for ivl in req.intervals
+        consensus[ivl] for ivl in consensus_ivls
         if consensus.get(ivl) in ("Peak", "Trough") and interval_results.get(ivl, {}).get("is_valid")
     ]
     peak_count = valid_types.count("Peak")
     trough_count = valid_types.count("Trough")
-    total = len(req.intervals)
+    total = len(consensus_ivls)
 
     entry_levels = [
-        interval_results[ivl]["entry"] for ivl in req.intervals
+        interval_results[ivl]["entry"] for ivl in consensus_ivls
         if interval_results[ivl].get("is_valid") and interval_results[ivl]["entry"] is not None
     ]
     exit_levels = [
-        interval_results[ivl]["exit_target"] for ivl in req.intervals
+        interval_results[ivl]["exit_target"] for ivl in consensus_ivls
         if interval_results[ivl].get("is_valid")
     ]
 
     # Pick a reference data source for S/R (prefer first valid interval)
-    ref_ivl = next((ivl for ivl in req.intervals if not stored_data.get(ivl, pd.DataFrame()).empty), None)
+    ref_ivl = next((ivl for ivl in consensus_ivls if not stored_data.get(ivl, pd.DataFrame()).empty), None)
 
     if (peak_count >= 2 or trough_count >= 2) and entry_levels and exit_levels:
         signal_type = "CALL" if peak_count >= trough_count else "PUT"
@@ -258,6 +326,86 @@ def predict(req: PredictRequest):
     return {"intervals": interval_results, "consensus": consensus_msg}
 
 
+# ---------------------------------------------------------------------------
+# /stream — server-sent events. The server re-runs predict on a timer and
+# pushes only what changed, so clients stop re-downloading the bar windows.
+# ---------------------------------------------------------------------------
+
+STREAM_MIN_POLL_S = 5
+STREAM_RETRY_MS = 5000
+
+
+def sse(event, data):
+    return f"event: {event}\ndata: {json.dumps(data)}\n\n"
+
+
+def stream_delta(prev, cur):
+    """Changed intervals between two encoded /predict payloads. Bars are sent
+    from the last one the client already has (it may still be forming)."""
+    changed = {}
+    for ivl, result in cur["intervals"].items():
+        old = prev["intervals"].get(ivl, {})
+        old_bars = old.get("ohlcv", [])
+        last_sent = old_bars[-1]["Date"] if old_bars else None
+        bars = [b for b in result["ohlcv"] if last_sent is None or b["Date"] >= last_sent]
+        rest = {k: v for k, v in result.items() if k != "ohlcv"}
+        if old and rest == {k: v for k, v in old.items() if k != "ohlcv"} and bars == old_bars[-1:]:
+            continue
+        changed[ivl] = {
+            **rest,
+            "bars": bars,
+            # Bars before this have scrolled out of the server's window; peaks/troughs index from here
+            "window_start": result["ohlcv"][0]["Date"] if result["ohlcv"] else None,
+        }
+    return changed
+
+
+@app.get("/stream")
+async def stream(
+    request: Request,
+    symbol: str,
+    intervals: str = "1h,4h",
+    periods: str = "",
+    consensus: str | None = None,
+    poll: float = 15,
+):
+    period_map = dict(p.split(":", 1) for p in periods.split(",") if ":" in p)
+    req = PredictRequest(
+        symbol=symbol,
+        intervals=[i for i in intervals.split(",") if i],
+        consensus_intervals=None if consensus is None else [i for i in consensus.split(",") if i],
+        **({"period_map": period_map} if period_map else {}),
+    )
+    delay = max(poll, STREAM_MIN_POLL_S)
+
+    async def events():
+        yield f"retry: {STREAM_RETRY_MS}\n\n"
+        prev = None
+        while not await request.is_disconnected():
+            try:
+                cur = jsonable_encoder(await run_in_threadpool(predict, req))
+            except Exception as e:
+                # Named so it doesn't collide with EventSource's own "error" event
+                yield sse("predict_error", {"detail": str(e)})
+            else:
+                if prev is None:
+                    yield sse("snapshot", cur)
+                else:
+                    changed = stream_delta(prev, cur)
+                    if changed or cur["consensus"] != prev["consensus"]:
+                        yield sse("update", {"intervals": changed, "consensus": cur["consensus"]})
+                    else:
+                        yield ": keepalive\n\n"
+                prev = cur
+            await asyncio.sleep(delay)
+
+    return StreamingResponse(
+        events(),
+        media_type="text/event-stream",
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
+
+
 class BacktestRequest(BaseModel):
     symbol: str
     interval: str = "1h"
@@ -51,18 +51,22 @@ def clean_tradier_data(raw_data: pd.DataFrame) -> pd.DataFrame:
 
     return raw_data
 
+TIMESALES_INTERVALS = {'1m': '1min', '5m': '5min', '15m': '15min'}
+RESAMPLED_INTERVALS = {'30m': '30min', '1h': '1h', '2h': '2h', '4h': '4h'}
+
+
 def fetch_market_data(symbol: str, interval: str = '1h', period: str = '30d') -> pd.DataFrame:
     """
     Fetch OHLCV data from Tradier.
 
     Routing:
       1m / 5m / 15m      → /markets/timesales
-      1h / 4h            → /markets/timesales with 15min bars, resampled
+      30m / 1h / 2h / 4h → /markets/timesales with 15min bars, resampled
       1d                 → /markets/history
 
     Args:
         symbol: Ticker symbol
-        interval: Interval string ('1m','5m','15m','1h','4h','1d')
+        interval: Interval string ('1m','5m','15m','30m','1h','2h','4h','1d')
         period: Duration (e.g., '30d' = 30 days)
 
     Returns:
@@ -83,8 +87,8 @@ def fetch_market_data(symbol: str, interval: str = '1h', period: str = '30d') ->
     headers = {'Authorization': f'Bearer {TRADIER_TOKEN}', 'Accept': 'application/json'}
 
     try:
-        if interval in ('1m', '5m', '15m', '1h', '4h'):
-            ts_interval = {'1m': '1min', '5m': '5min', '15m': '15min', '1h': '15min', '4h': '15min'}[interval]
+        if interval in TIMESALES_INTERVALS or interval in RESAMPLED_INTERVALS:
+            ts_interval = TIMESALES_INTERVALS.get(interval, '15min')
             params = {
                 'symbol': symbol,
                 'interval': ts_interval,
@@ -119,9 +123,8 @@ def fetch_market_data(symbol: str, interval: str = '1h', period: str = '30d') ->
             df.set_index('Date', inplace=True)
             df = df[~df.index.duplicated(keep='last')].sort_index()
 
-            if interval in ('1h', '4h'):
-                rule = '1h' if interval == '1h' else '4h'
-                df = df.resample(rule).agg(
+            if interval in RESAMPLED_INTERVALS:
+                df = df.resample(RESAMPLED_INTERVALS[interval]).agg(
                     Open=('Open', 'first'), High=('High', 'max'),
                     Low=('Low', 'min'), Close=('Close', 'last'),
                     Volume=('Volume', 'sum')
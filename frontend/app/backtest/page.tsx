@@ -0,0 +1,126 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { BarChart3, FlaskConical, ListOrdered, ArrowLeft, LineChart } from "lucide-react"
+import { BacktestForm } from "@/components/backtest-form"
+import { BacktestMetrics } from "@/components/backtest-metrics"
+import { BacktestEquityChart } from "@/components/backtest-equity-chart"
+import { BacktestTradesTable } from "@/components/backtest-trades-table"
+import { fetchBacktest, type BacktestRequest, type BacktestResponse } from "@/lib/api"
+
+export default function BacktestWorkbench() {
+  const [result, setResult] = useState<BacktestResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [selectedTrade, setSelectedTrade] = useState<number | null>(null)
+
+  const handleRun = async (params: BacktestRequest) => {
+    setIsRunning(true)
+    setError(null)
+    setSelectedTrade(null)
+    try {
+      setResult(await fetchBacktest(params))
+    } catch (e) {
+      setResult(null)
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const activeTrade = result && selectedTrade != null ? result.trades[selectedTrade] : undefined
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="p-6 space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-rose-500 rounded flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold">Backtest Workbench</h1>
+          </div>
+          <Button asChild variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {/* Parameters */}
+        <Card className="bg-neutral-900 border-neutral-700">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FlaskConical className="w-4 h-4 text-pink-500" />
+              <span>Walk-forward Parameters</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BacktestForm onSubmit={handleRun} isRunning={isRunning} />
+            {error && <p className="mt-4 text-sm text-rose-400">{error}</p>}
+          </CardContent>
+        </Card>
+
+        {result && (
+          <>
+            {/* Metrics */}
+            <Card className="bg-neutral-900 border-neutral-700">
+              <CardHeader>
+                <CardTitle>{result.symbol} {result.interval} — {result.period}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BacktestMetrics result={result} />
+              </CardContent>
+            </Card>
+
+            {/* Equity curve */}
+            <Card className="bg-neutral-900 border-neutral-700">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <LineChart className="w-4 h-4 text-pink-500" />
+                  <span>Equity &amp; Drawdown</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {result.trades.length ? (
+                  <BacktestEquityChart trades={result.trades} selectedIndex={selectedTrade} onSelectTrade={setSelectedTrade} />
+                ) : (
+                  <p className="text-neutral-400 text-sm">No trades to chart.</p>
+                )}
+                {activeTrade && (
+                  <div className="mt-3 flex flex-wrap gap-4 text-sm">
+                    <span className="text-neutral-400">Trade #{selectedTrade! + 1}</span>
+                    <span>Entry: <span className="font-mono">{activeTrade.entry_time ?? "—"}</span></span>
+                    <span>Exit: <span className="font-mono">{activeTrade.exit_time ?? "—"}</span></span>
+                    <span>Reason: <span className="font-semibold uppercase">{activeTrade.exit_reason ?? "—"}</span></span>
+                    <span>P/L: <span className="font-mono">{activeTrade.pnl_pct?.toFixed(3) ?? "—"}%</span></span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Trades */}
+            <Card className="bg-neutral-900 border-neutral-700">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ListOrdered className="w-4 h-4 text-pink-500" />
+                  <span>Trades</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BacktestTradesTable trades={result.trades} selectedIndex={selectedTrade} onSelectTrade={setSelectedTrade} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+      </div>
+    </div>
+  )
+}
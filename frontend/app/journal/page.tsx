@@ -0,0 +1,190 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, BarChart3, History, RefreshCw, Trash2 } from "lucide-react"
+import { ForwardTestCard } from "@/components/forward-test-card"
+import { JournalTimeline, type TimelineItem } from "@/components/journal-timeline"
+import { clearLiveSignals, listLiveSignals, type LiveSignal } from "@/lib/forward-test"
+import { clearJournal, diffEntries, listJournal, type JournalEntry } from "@/lib/journal"
+
+const ALL = "all"
+
+function dayBounds(day: string) {
+  if (!day) return {}
+  const from = new Date(`${day}T00:00:00`)
+  return { from, to: new Date(from.getTime() + 86_400_000) }
+}
+
+// Diff each entry against the previous one for the same symbol, oldest first
+function toTimeline(entries: JournalEntry[]): TimelineItem[] {
+  const last: Record<string, JournalEntry> = {}
+  return entries.map((entry) => {
+    const prev = last[entry.symbol]
+    last[entry.symbol] = entry
+    return {
+      entry,
+      changes: prev ? diffEntries(prev, entry) : [],
+      isFlip: !!prev && prev.signal !== entry.signal,
+    }
+  })
+}
+
+export default function SignalJournal() {
+  const [entries, setEntries] = useState<JournalEntry[]>([])
+  const [liveSignals, setLiveSignals] = useState<LiveSignal[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [symbol, setSymbol] = useState(ALL)
+  const [signal, setSignal] = useState(ALL)
+  const [day, setDay] = useState("")
+  const [flipsOnly, setFlipsOnly] = useState(false)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [journal, signals] = await Promise.all([listJournal(dayBounds(day)), listLiveSignals()])
+      setEntries(journal)
+      setLiveSignals(signals)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [day])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const symbols = useMemo(
+    () => Array.from(new Set([...entries, ...liveSignals].map((e) => e.symbol))).sort(),
+    [entries, liveSignals]
+  )
+
+  const items = useMemo(() => toTimeline(entries)
+    .filter(({ entry, isFlip }) => (symbol === ALL || entry.symbol === symbol)
+      && (signal === ALL || entry.signal === signal)
+      && (!flipsOnly || isFlip))
+    .reverse(), [entries, symbol, signal, flipsOnly])
+
+  const handleClear = async () => {
+    await Promise.all([clearJournal(), clearLiveSignals()])
+    load()
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="p-6 space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-rose-500 rounded flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold">Signal Journal</h1>
+          </div>
+          <Button asChild variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="bg-neutral-900 border-neutral-700">
+          <CardHeader>
+            <div className="flex items-center justify-between w-full flex-wrap gap-3">
+              <CardTitle className="flex items-center space-x-2">
+                <History className="w-4 h-4 text-pink-500" />
+                <span>Timeline</span>
+                <span className="text-sm font-normal text-neutral-400">{items.length} of {entries.length}</span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={load} disabled={isLoading}>
+                  <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800 text-rose-400" disabled={!entries.length}>
+                      <Trash2 className="w-3 h-3 mr-2" />
+                      Clear
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="bg-neutral-900 border-neutral-700 text-white">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Clear the signal journal?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Every recorded signal and the live track record in this browser are deleted. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">Cancel</AlertDialogCancel>
+                      <AlertDialogAction className="bg-rose-600 hover:bg-rose-700" onClick={handleClear}>Clear</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-3 flex-wrap text-sm">
+              <Select value={symbol} onValueChange={setSymbol}>
+                <SelectTrigger className="w-32 bg-neutral-800 border-neutral-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All symbols</SelectItem>
+                  {symbols.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ToggleGroup type="single" value={signal} onValueChange={(v) => setSignal(v || ALL)}>
+                {[ALL, "CALL", "PUT", "NO_TRADE"].map((s) => (
+                  <ToggleGroupItem key={s} value={s} size="sm" className="data-[state=on]:bg-rose-500">
+                    {s === ALL ? "All" : s.replace("_", " ")}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <Input
+                type="date"
+                value={day}
+                onChange={(e) => setDay(e.target.value)}
+                className="w-40 bg-neutral-800 border-neutral-600 text-white"
+              />
+              <label className="flex items-center gap-2 text-neutral-300">
+                <Switch checked={flipsOnly} onCheckedChange={setFlipsOnly} />
+                Regime flips only
+              </label>
+            </div>
+
+            {error ? <p className="text-sm text-rose-400">{error}</p> : <JournalTimeline items={items} />}
+          </CardContent>
+        </Card>
+
+        <ForwardTestCard signals={symbol === ALL ? liveSignals : liveSignals.filter((s) => s.symbol === symbol)} />
+
+      </div>
+    </div>
+  )
+}
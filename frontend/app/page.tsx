@@ -1,69 +1,379 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
+import { Fragment, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { TrendingUp, Target, BarChart3, Loader2 } from "lucide-react"
-import Plot from 'react-plotly.js'
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { TrendingUp, Target, BarChart3, Loader2, FlaskConical, Crosshair, AlertTriangle, RefreshCw, CandlestickChart, LineChart, Columns2, Square, History, Wallet, Radio } from "lucide-react"
+import { AlertRulesManager } from "@/components/alert-rules-manager"
+import { BackendSettings } from "@/components/backend-settings"
+import { LastUpdated } from "@/components/last-updated"
+import { MarketStatusBanner } from "@/components/market-status-banner"
+import { NotificationSettings } from "@/components/notification-settings"
+import { OptionsPanel } from "@/components/options-panel"
+import { PaperTradeButton } from "@/components/paper-trade-button"
+import { PayoffChart } from "@/components/payoff-chart"
+import { PositionSizer } from "@/components/position-sizer"
+import { ReplayBar } from "@/components/replay-bar"
+import { SessionRecorder } from "@/components/session-recorder"
+import { IntervalPanel } from "@/components/interval-panel"
+import type { ChartSync } from "@/components/price-chart"
+import { IndicatorPicker } from "@/components/indicator-picker"
+import { TimeframeManager } from "@/components/timeframe-manager"
+import { Watchlist } from "@/components/watchlist"
+import { toast } from "@/hooks/use-toast"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { usePredictStream } from "@/hooks/use-predict-stream"
+import { useReplay } from "@/hooks/use-replay"
+import { useWatchlist } from "@/hooks/use-watchlist"
+import { useTimeframes } from "@/hooks/use-timeframes"
+import { fetchBacktest, fetchPredict, describeApiError, type BacktestTrade, type IntervalResult, type PredictResponse } from "@/lib/api"
+import { DEFAULT_BACKTEST_PARAMS } from "@/lib/backtest"
+import { buildTradeTraces, tradesInWindow, type ChartMode, type IndicatorId } from "@/lib/chart-traces"
+import { getDesktopBridge } from "@/lib/desktop"
+import { rrColor } from "@/lib/format"
+import { listLiveSignals, summarizeLiveSignals, trackPrediction, type LiveSummary } from "@/lib/forward-test"
+import { shouldAutoRefresh } from "@/lib/market-hours"
+import { getMockScenario, type MockScenario } from "@/lib/mock-backend"
+import { midPrice, projectedTargetDate, type OptionContract, type TradePlan } from "@/lib/options-chain"
+import { alertOnPrediction, alertOnReplay, resetReplayAlerts } from "@/lib/notifications"
+import { announcePaperExits, markPaperTrades } from "@/lib/paper-trading"
+import type { StreamStatus } from "@/lib/predict-stream"
+import { backoffDelay } from "@/lib/retry"
+import { appendFrame, startRecording, stopRecording, type RecordingSession } from "@/lib/session-recorder"
+import { readStored, writeStored } from "@/lib/storage"
+import { buildPredictRequest, loadTimeframes, type TimeframeConfig } from "@/lib/timeframes"
 
-const INTERVALS = ["1h", "4h"]
-const PERIOD_MAP = { "1h": "15d", "4h": "30d" }
+const REFRESH_MS = 60000
 
-function isWithinMarketRefreshWindow() {
-  const easternNow = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }))
-  const mins = easternNow.getHours() * 60 + easternNow.getMinutes()
-  return mins >= 565 && mins <= 965 // 9:25am–4:05pm ET
+type LayoutMode = "tabs" | "grid"
+
+const STREAM_BADGES: Record<StreamStatus, { label: string; color: string; title: string }> = {
+  connecting: { label: "Connecting…", color: "text-neutral-400", title: "Opening the live stream; polling until it connects" },
+  live: { label: "Live", color: "text-emerald-400", title: "Updates are pushed by the backend" },
+  fallback: { label: "Polling", color: "text-yellow-300", title: "Live stream unavailable; polling every minute and retrying the stream" },
 }
 
 export default function MurliTradingApp() {
   const [tickerSymbol, setTickerSymbol] = useState("SPY")
   const [activeTimeframe, setActiveTimeframe] = useState("1h")
-  const [backendData, setBackendData] = useState<any>(null)
+  const { timeframes, setTimeframes } = useTimeframes()
+  const [backendData, setBackendData] = useState<PredictResponse | null>(null)
+  // Symbol backendData belongs to; the ticker input may already hold a different one
+  const [dataSymbol, setDataSymbol] = useState<string | null>(null)
+  const [fetchError, setFetchError] = useState<unknown>(null)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [nextRetryAt, setNextRetryAt] = useState<Date | null>(null)
   const [isUserLoading, setIsUserLoading] = useState(false)
   const [isAutoRefreshing, setIsAutoRefreshing] = useState(false)
+  const [tradeOverlay, setTradeOverlay] = useState<{ key: string; trades: BacktestTrade[] } | null>(null)
+  const [isOverlayLoading, setIsOverlayLoading] = useState(false)
+  const [overlayError, setOverlayError] = useState<string | null>(null)
+  const [chartMode, setChartMode] = useState<ChartMode>("candle")
+  const [indicators, setIndicators] = useState<IndicatorId[]>([])
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>("tabs")
+  const [syncedRange, setSyncedRange] = useState<[string, string] | null>(null)
+  const [hoverTime, setHoverTime] = useState<string | null>(null)
+  const [liveSummary, setLiveSummary] = useState<LiveSummary | null>(null)
+  const [mockScenario, setMockScenario] = useState<MockScenario | null>(null)
+  const [pickedContract, setPickedContract] = useState<OptionContract | null>(null)
+  const [streamSymbol, setStreamSymbol] = useState<string | null>(null)
+  const [inSession, setInSession] = useState(false)
+  const [recording, setRecording] = useState<RecordingSession | null>(null)
+  const isMobile = useIsMobile()
   const tickerRef = useRef(tickerSymbol)
+  const failuresRef = useRef(0)
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const recordingRef = useRef<RecordingSession | null>(null)
+  // Frames are appended one at a time so seq numbers never race
+  const recordQueueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const replayingRef = useRef(false)
+  const liveTickerRef = useRef(tickerSymbol)
+
+  const clearRetry = () => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    retryTimerRef.current = null
+    setNextRetryAt(null)
+  }
+
+  const refreshLiveSummary = useCallback((symbol: string) => {
+    listLiveSignals(symbol.toUpperCase())
+      .then((signals) => setLiveSummary(summarizeLiveSignals(signals)))
+      .catch(() => setLiveSummary(null))
+  }, [])
+
+  const recordFrame = useCallback((symbol: string, data: PredictResponse) => {
+    recordQueueRef.current = recordQueueRef.current
+      .then(async () => {
+        const session = recordingRef.current
+        if (!session) return
+        const next = await appendFrame(session, symbol, data)
+        if (recordingRef.current?.id !== next.id) return
+        recordingRef.current = next
+        setRecording(next)
+      })
+      .catch(() => {})
+  }, [])
+
+  // Shared by polling and the live stream; live data is ignored while replaying
+  const applyResponse = useCallback((symbol: string, data: PredictResponse, consensusIntervals?: string[]) => {
+    if (replayingRef.current) return
+    recordFrame(symbol, data)
+    setBackendData(data)
+    setDataSymbol(symbol.toUpperCase())
+    alertOnPrediction(symbol, data)
+    announcePaperExits(markPaperTrades(symbol, data))
+    trackPrediction(symbol, data, consensusIntervals).then(() => refreshLiveSummary(symbol)).catch(() => {})
+    setFetchError(null)
+    setLastUpdated(new Date())
+    failuresRef.current = 0
+  }, [refreshLiveSummary, recordFrame])
 
   const fetchAll = useCallback(async (triggeredByUser = false) => {
     if (triggeredByUser) setIsUserLoading(true)
     else setIsAutoRefreshing(true)
+    clearRetry()
     try {
-      const res = await fetch("http://127.0.0.1:8000/predict", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ symbol: tickerRef.current, intervals: INTERVALS, period_map: PERIOD_MAP }),
-      })
-      const data = await res.json()
-      setBackendData(data)
-    } catch {
-      setBackendData(null)
+      const symbol = tickerRef.current
+      const req = buildPredictRequest(symbol, loadTimeframes())
+      applyResponse(symbol, await fetchPredict(req), req.consensus_intervals)
+      setStreamSymbol(symbol.toUpperCase())
+    } catch (e) {
+      // Keep the last good payload on screen; LastUpdated marks it as stale.
+      setFetchError(e)
+      failuresRef.current += 1
+      if (triggeredByUser || failuresRef.current === 1) {
+        toast({ variant: "destructive", ...describeApiError(e) })
+      }
+      if (shouldAutoRefresh()) {
+        const delay = backoffDelay(failuresRef.current, 5000, REFRESH_MS)
+        retryTimerRef.current = setTimeout(() => fetchAll(false), delay)
+        setNextRetryAt(new Date(Date.now() + delay))
+      }
     } finally {
       if (triggeredByUser) setIsUserLoading(false)
       else setIsAutoRefreshing(false)
     }
-  }, [])
+  }, [applyResponse])
+
+  // Replayed frames go through the same state as live responses, minus the
+  // journal, forward test and paper trades, which only record live data
+  const replay = useReplay((frame, prev) => {
+    setTickerSymbol(frame.symbol)
+    tickerRef.current = frame.symbol
+    setBackendData(frame.data)
+    setDataSymbol(frame.symbol.toUpperCase())
+    setLastUpdated(new Date(frame.at))
+    setFetchError(null)
+    alertOnReplay(frame.symbol, prev?.data, frame.data, new Date(frame.at))
+  })
+  replayingRef.current = !!replay.session
+
+  const startReplay = (session: RecordingSession) => {
+    if (!replay.session) liveTickerRef.current = tickerRef.current
+    clearRetry()
+    setPickedContract(null)
+    resetReplayAlerts()
+    replay.start(session)
+  }
+
+  const exitReplay = () => {
+    replay.stop()
+    replayingRef.current = false
+    setTickerSymbol(liveTickerRef.current)
+    tickerRef.current = liveTickerRef.current
+    setPickedContract(null)
+    fetchAll(true)
+  }
+
+  const toggleRecording = async (on: boolean) => {
+    try {
+      if (on) {
+        const session = await startRecording(tickerRef.current)
+        recordingRef.current = session
+        setRecording(session)
+        if (backendData && !replayingRef.current) recordFrame(tickerRef.current, backendData)
+      } else if (recordingRef.current) {
+        const session = recordingRef.current
+        recordingRef.current = null
+        setRecording(null)
+        await recordQueueRef.current
+        await stopRecording(session)
+      }
+    } catch (e) {
+      toast({ variant: "destructive", title: "Session recording failed", description: e instanceof Error ? e.message : String(e) })
+    }
+  }
+
+  const streamRequest = useMemo(
+    () => (streamSymbol && inSession && !replay.session ? buildPredictRequest(streamSymbol, timeframes) : null),
+    [streamSymbol, inSession, timeframes, replay.session]
+  )
+  const streamStatus = usePredictStream(
+    streamRequest,
+    (data, symbol, req) => {
+      // Ignore a stream still draining for the previous ticker
+      if (symbol === tickerRef.current.toUpperCase()) applyResponse(symbol, data, req.consensus_intervals)
+    },
+    (detail, symbol) => {
+      if (symbol !== tickerRef.current.toUpperCase() || replayingRef.current) return
+      // Counted with poll failures, so a failing stream toasts once, not every tick
+      setFetchError(new Error(`Live stream: ${detail}`))
+      failuresRef.current += 1
+      if (failuresRef.current === 1) toast({ variant: "destructive", title: "Live stream error", description: detail })
+    }
+  )
+  const streamStatusRef = useRef(streamStatus)
+  streamStatusRef.current = streamStatus
 
   useEffect(() => {
     fetchAll(false)
-    const id = setInterval(() => { if (isWithinMarketRefreshWindow()) fetchAll(false) }, 60000)
-    return () => clearInterval(id)
+    setMockScenario(getMockScenario())
+    setInSession(shouldAutoRefresh())
+    const id = setInterval(() => {
+      const active = shouldAutoRefresh()
+      setInSession(active)
+      // A live stream replaces polling; while a backoff retry is pending it owns the next request
+      if (active && streamStatusRef.current !== "live" && !retryTimerRef.current && !replayingRef.current) fetchAll(false)
+    }, REFRESH_MS)
+    return () => {
+      clearInterval(id)
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    }
   }, [fetchAll])
 
+  const loadTradeOverlay = async () => {
+    const symbol = dataSymbol ?? tickerRef.current.toUpperCase()
+    setIsOverlayLoading(true)
+    setOverlayError(null)
+    try {
+      const result = await fetchBacktest({ ...DEFAULT_BACKTEST_PARAMS, symbol, interval: activeTimeframe })
+      setTradeOverlay({ key: `${symbol}:${activeTimeframe}`, trades: result.trades })
+    } catch (e) {
+      setOverlayError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsOverlayLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setChartMode(readStored<ChartMode>("murli.chartMode", "candle"))
+    setIndicators(readStored<IndicatorId[]>("murli.indicators", []))
+    setLayoutMode(readStored<LayoutMode>("murli.layoutMode", "tabs"))
+  }, [])
+
+  const handleIndicatorsChange = (next: IndicatorId[]) => {
+    setIndicators(next)
+    writeStored("murli.indicators", next)
+  }
+
+  const handleChartModeChange = (mode: string) => {
+    if (mode !== "line" && mode !== "candle") return
+    setChartMode(mode)
+    writeStored("murli.chartMode", mode)
+  }
+
+  const handleLayoutModeChange = (mode: string) => {
+    if (mode !== "tabs" && mode !== "grid") return
+    setLayoutMode(mode)
+    setSyncedRange(null)
+    writeStored("murli.layoutMode", mode)
+  }
+
   const handleTickerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setTickerSymbol(e.target.value)
     tickerRef.current = e.target.value
+    setPickedContract(null)
+  }
+
+  const watchlist = useWatchlist({ refreshMs: REFRESH_MS, activeSymbol: dataSymbol ?? tickerSymbol })
+  const shareWithWatchlist = watchlist.share
+
+  useEffect(() => {
+    if (backendData && dataSymbol && lastUpdated && !replayingRef.current) shareWithWatchlist(dataSymbol, backendData, lastUpdated)
+  }, [backendData, dataSymbol, lastUpdated, shareWithWatchlist])
+
+  useEffect(() => {
+    if (!backendData) return
+    const { consensus } = backendData
+    getDesktopBridge()?.setSignal({
+      symbol: dataSymbol ?? tickerRef.current.toUpperCase(),
+      signal: consensus.signal,
+      agreeing: consensus.is_trade ? consensus.agreeing : null,
+    })
+  }, [backendData, dataSymbol])
+
+  useEffect(() => {
+    if (timeframes.length && !timeframes.some((t) => t.interval === activeTimeframe)) {
+      setActiveTimeframe(timeframes[0].interval)
+    }
+  }, [timeframes, activeTimeframe])
+
+  const handleTimeframesSave = (next: TimeframeConfig[]) => {
+    setTimeframes(next)
+    fetchAll(true)
+    watchlist.refreshAll()
+  }
+
+  const selectSymbol = (symbol: string) => {
+    if (replayingRef.current) return
+    setTickerSymbol(symbol)
+    tickerRef.current = symbol
+    setPickedContract(null)
+    const cached = watchlist.entries[symbol]
+    if (cached?.data) {
+      setStreamSymbol(symbol.toUpperCase())
+      setBackendData(cached.data)
+      setDataSymbol(symbol.toUpperCase())
+      setLastUpdated(cached.updatedAt)
+      setFetchError(null)
+      refreshLiveSummary(symbol)
+    } else {
+      fetchAll(true)
+    }
   }
 
   const consensus = backendData?.consensus
   const intervals = backendData?.intervals || {}
-  const activeData = intervals[activeTimeframe] || {}
+  const symbol = dataSymbol ?? tickerRef.current.toUpperCase()
+  const activeData: Partial<IntervalResult> = intervals[activeTimeframe] || {}
+  const overlayKey = `${symbol}:${activeTimeframe}`
+
+  const overlayTradesFor = (interval: string) => {
+    const bars = intervals[interval]?.ohlcv
+    return tradeOverlay?.key === `${symbol}:${interval}`
+      ? tradesInWindow(tradeOverlay.trades, bars?.[0]?.Date, bars?.[bars.length - 1]?.Date)
+      : []
+  }
+  const tradeTracesFor = (interval: string) => buildTradeTraces(overlayTradesFor(interval))
+  const overlayTrades = overlayTradesFor(activeTimeframe)
+
+  const optionsPlan = useMemo<TradePlan | null>(() => {
+    if (!backendData?.consensus.is_trade) return null
+    const { signal, avg_entry, tp } = backendData.consensus
+    return { signal, entry: avg_entry, tp, targetDate: projectedTargetDate(backendData) }
+  }, [backendData])
+  const tradeLevels = useMemo(() => {
+    if (!backendData?.consensus.is_trade) return null
+    const { signal, avg_entry, sl, tp, strike } = backendData.consensus
+    return { signal, entry: avg_entry, sl, tp, strike }
+  }, [backendData])
+  const pickedSizing = useMemo(
+    () => (pickedContract ? { premium: midPrice(pickedContract), delta: pickedContract.delta } : null),
+    [pickedContract]
+  )
+  const livePrice = Object.values(intervals)[0]?.latest_price ?? null
 
-  const rrColor = (rr: number | null | undefined) => {
-    if (rr == null) return "text-neutral-400"
-    if (rr >= 2) return "text-emerald-400"
-    if (rr >= 1) return "text-yellow-400"
-    return "text-rose-400"
+  const showGrid = layoutMode === "grid" && !isMobile && timeframes.length > 1
+  const chartSync: ChartSync = {
+    xRange: syncedRange,
+    onXRangeChange: setSyncedRange,
+    hoverTime,
+    onHoverTime: setHoverTime,
   }
 
   return (
@@ -77,6 +387,15 @@ export default function MurliTradingApp() {
               <BarChart3 className="w-5 h-5 text-white" />
             </div>
             <h1 className="text-3xl font-bold">MURLI by sm0h</h1>
+            {mockScenario && (
+              <span
+                className="inline-flex items-center gap-1 rounded border border-amber-500/60 bg-amber-950/40 px-2 py-0.5 text-xs font-semibold text-amber-300"
+                title="Synthetic data from the in-browser mock backend; nothing is journaled or paper traded"
+              >
+                <FlaskConical className="w-3 h-3" />
+                MOCK: {mockScenario}
+              </span>
+            )}
           </div>
           <div className="flex items-center space-x-3">
             <label className="text-sm text-neutral-300">Ticker:</label>
@@ -85,26 +404,111 @@ export default function MurliTradingApp() {
               onChange={handleTickerChange}
               className="bg-neutral-800 border-neutral-600 text-white w-24"
               placeholder="SPY"
+              disabled={!!replay.session}
             />
             <Button
               className="bg-purple-600 hover:bg-purple-700"
               onClick={() => fetchAll(true)}
-              disabled={isUserLoading}
+              disabled={isUserLoading || !!replay.session}
             >
               <TrendingUp className="w-4 h-4 mr-2" />
               {isUserLoading ? "Loading…" : "Run Prediction"}
             </Button>
             {isAutoRefreshing && <Loader2 className="animate-spin text-neutral-400" size={18} />}
+            <NotificationSettings symbols={watchlist.symbols} />
+            <AlertRulesManager />
+            <SessionRecorder recording={recording} onRecordingChange={toggleRecording} onReplay={startReplay} />
+            <BackendSettings onProfileChange={() => {
+              setMockScenario(getMockScenario())
+              fetchAll(true)
+            }} />
+            <Button asChild variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+              <Link href="/journal">
+                <History className="w-4 h-4 mr-2" />
+                Journal
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+              <Link href="/paper">
+                <Wallet className="w-4 h-4 mr-2" />
+                Paper
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+              <Link href="/backtest">
+                <FlaskConical className="w-4 h-4 mr-2" />
+                Backtest
+              </Link>
+            </Button>
           </div>
         </div>
 
+        <ReplayBar replay={replay} onExit={exitReplay} />
+
+        <div className={`flex items-center justify-end gap-3 -mt-4 ${replay.session ? "hidden" : ""}`}>
+          {streamStatus !== "off" && (
+            <span
+              className={`inline-flex items-center gap-1 text-xs ${STREAM_BADGES[streamStatus].color}`}
+              title={STREAM_BADGES[streamStatus].title}
+            >
+              <Radio className="w-3 h-3" />
+              {STREAM_BADGES[streamStatus].label}
+            </span>
+          )}
+          <LastUpdated at={lastUpdated} staleAfterMs={REFRESH_MS * 2} />
+        </div>
+
+        {fetchError != null && (
+          <div className="flex items-start gap-3 rounded-lg border border-rose-600 bg-rose-950/30 p-4 text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-rose-400 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold text-rose-300">{describeApiError(fetchError).title}</div>
+              <div className="text-neutral-300 font-mono text-xs mt-1 break-all">{describeApiError(fetchError).description}</div>
+              {nextRetryAt && (
+                <div className="text-neutral-400 text-xs mt-1">Retrying automatically at {nextRetryAt.toLocaleTimeString()}</div>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800"
+              onClick={() => fetchAll(true)}
+              disabled={isUserLoading}
+            >
+              <RefreshCw className="w-3 h-3 mr-2" />
+              Retry now
+            </Button>
+          </div>
+        )}
+
+        <MarketStatusBanner />
+
+        <Watchlist
+          symbols={watchlist.symbols}
+          entries={watchlist.entries}
+          activeSymbol={tickerSymbol}
+          onSelect={selectSymbol}
+          onAdd={watchlist.addSymbol}
+          onRemove={watchlist.removeSymbol}
+          onRefresh={watchlist.refreshAll}
+        />
+
         {/* Signal Card */}
         <Card className="bg-neutral-900 border-neutral-700">
           <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Target className="w-4 h-4 text-pink-500" />
-              <span>Signal</span>
-            </CardTitle>
+            <div className="flex items-center justify-between w-full flex-wrap gap-3">
+              <CardTitle className="flex items-center space-x-2">
+                <Target className="w-4 h-4 text-pink-500" />
+                <span>Signal</span>
+              </CardTitle>
+              {liveSummary && liveSummary.total > 0 && (
+                <Link href="/journal" className="text-xs text-neutral-400 hover:text-white" title="Live forward-test record for this symbol">
+                  Live: {liveSummary.hitRate != null ? `${(liveSummary.hitRate * 100).toFixed(0)}% hit` : "—"}
+                  {" · "}{liveSummary.avgR != null ? `${liveSummary.avgR >= 0 ? "+" : ""}${liveSummary.avgR.toFixed(2)}R avg` : "—"}
+                  {" · "}{liveSummary.closed} graded, {liveSummary.open} open
+                </Link>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             {!consensus ? (
@@ -116,7 +520,7 @@ export default function MurliTradingApp() {
                 <div className="text-2xl font-bold mb-3">
                   {consensus.signal === "CALL" ? "📈 BUY CALL" : "📉 BUY PUT"}
                   {" — "}
-                  {tickerRef.current.toUpperCase()} ${consensus.strike} Strike
+                  {symbol} ${consensus.strike} Strike
                 </div>
                 <div className="text-sm text-neutral-300 mb-4">
                   {consensus.signal === "CALL" ? "Expecting price to rise" : "Expecting price to fall"} toward ${consensus.tp?.toFixed(2)}
@@ -143,6 +547,11 @@ export default function MurliTradingApp() {
                 <div className={`mt-3 text-sm font-semibold ${rrColor(consensus.risk_reward)}`}>
                   R/R Ratio: {consensus.risk_reward != null ? consensus.risk_reward.toFixed(2) : "—"}
                 </div>
+                <PositionSizer
+                  levels={{ signal: consensus.signal, entry: consensus.avg_entry, sl: consensus.sl, tp: consensus.tp, strike: pickedContract?.strike ?? consensus.strike }}
+                  contract={pickedSizing}
+                />
+                {backendData && !replay.session && <PaperTradeButton symbol={symbol} data={backendData} />}
               </div>
             ) : (
               <div className="rounded-lg border-2 border-yellow-600 bg-yellow-950/20 p-5">
@@ -153,170 +562,116 @@ export default function MurliTradingApp() {
           </CardContent>
         </Card>
 
-        {/* Timeframe tabs */}
-        <Tabs value={activeTimeframe} onValueChange={setActiveTimeframe}>
-          <TabsList className="bg-neutral-800">
-            {INTERVALS.map((ivl) => (
-              <TabsTrigger key={ivl} value={ivl} className="data-[state=active]:bg-rose-500">
-                {ivl}
-              </TabsTrigger>
-            ))}
-          </TabsList>
-        </Tabs>
+        {backendData && (
+          <OptionsPanel
+            symbol={symbol}
+            livePrice={livePrice}
+            plan={optionsPlan}
+            picked={pickedContract}
+            onPick={setPickedContract}
+          />
+        )}
 
-        {/* Per-interval detail */}
-        <Card className="bg-neutral-900 border-neutral-700">
-          <CardHeader>
-            <div className="flex items-center justify-between w-full">
-              <CardTitle>{activeTimeframe} — {tickerRef.current.toUpperCase()}</CardTitle>
-              <div className="text-xs text-neutral-400 space-x-4">
-                <span>ATR: <span className={activeData.low_volatility ? "text-yellow-300" : "text-white"}>
-                  {activeData.atr != null ? activeData.atr.toFixed(3) : "—"}
-                </span></span>
-                <span>ATR/Close: <span className="text-white">
-                  {activeData.atr_ratio != null ? (activeData.atr_ratio * 100).toFixed(2) + "%" : "—"}
-                </span></span>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {activeData.prediction && activeData.prediction.predicted_type_name !== "Unknown" ? (
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
-                <div>
-                  <div className="text-neutral-400 mb-1">Signal</div>
-                  <div className="text-lg font-bold flex items-center gap-1">
-                    {activeData.prediction.predicted_type_name}
-                    {activeData.macd_tick && (
-                      <span className="text-emerald-400" title="MACD confirms">✓</span>
-                    )}
-                  </div>
-                </div>
-                <div>
-                  <div className="text-neutral-400 mb-1">Confidence</div>
-                  <div className="text-lg font-bold text-emerald-400">
-                    {(activeData.prediction.confidence * 100).toFixed(0)}%
-                  </div>
-                </div>
-                <div>
-                  <div className="text-neutral-400 mb-1">Target Price</div>
-                  <div className="text-lg font-bold">${activeData.prediction.estimated_value?.toFixed(2)}</div>
-                </div>
-                <div>
-                  <div className="text-neutral-400 mb-1">Projected (ET)</div>
-                  <div className="text-lg font-bold">{activeData.projected_time_et || "—"}</div>
-                </div>
-              </div>
-            ) : (
-              <p className="text-neutral-400 mb-4 text-sm">No valid signal for {activeTimeframe} — showing chart only.</p>
-            )}
+        {tradeLevels && (
+          <PayoffChart
+            levels={tradeLevels}
+            spot={livePrice}
+            contract={pickedContract}
+            targetDate={optionsPlan?.targetDate ?? null}
+          />
+        )}
 
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
-              {[
-                ["Support", activeData.support],
-                ["Resistance", activeData.resistance],
-                ["Entry", activeData.entry],
-                ["Exit Target", activeData.exit_target],
-              ].map(([label, val]) => (
-                <div key={label as string}>
-                  <span className="text-neutral-400">{label}: </span>
-                  <span className="font-mono">{val != null ? `$${(val as number).toFixed(2)}` : "—"}</span>
-                </div>
+        {/* Timeframe tabs & chart toolbar */}
+        <div className="flex items-center gap-3 flex-wrap text-xs">
+          <Tabs value={activeTimeframe} onValueChange={setActiveTimeframe}>
+            <TabsList className="bg-neutral-800">
+              {timeframes.map(({ interval, inConsensus }) => (
+                <TabsTrigger key={interval} value={interval} className="data-[state=active]:bg-rose-500">
+                  {interval}
+                  {!inConsensus && <span className="ml-1 text-[10px] text-neutral-400" title="Not counted in consensus">○</span>}
+                </TabsTrigger>
               ))}
-              <div>
-                <span className="text-neutral-400">R/R: </span>
-                <span className={`font-mono ${rrColor(activeData.risk_reward)}`}>
-                  {activeData.risk_reward != null ? activeData.risk_reward.toFixed(2) : "—"}
-                </span>
-              </div>
-              <div>
-                <span className="text-neutral-400">Valid Setup: </span>
-                <span className={activeData.is_valid ? "text-emerald-400" : "text-rose-400"}>
-                  {activeData.is_valid ? "Yes" : "No"}
-                </span>
-              </div>
-              <div>
-                <span className="text-neutral-400">Price: </span>
-                <span className="font-mono">{activeData.latest_price != null ? `$${activeData.latest_price.toFixed(2)}` : "—"}</span>
-              </div>
-              <div>
-                <span className="text-neutral-400">As of: </span>
-                <span className="font-mono text-xs">{activeData.latest_timestamp || "—"}</span>
-              </div>
-            </div>
+            </TabsList>
+          </Tabs>
+          <TimeframeManager timeframes={timeframes} onSave={handleTimeframesSave} />
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800"
+            onClick={() => (tradeOverlay?.key === overlayKey ? setTradeOverlay(null) : loadTradeOverlay())}
+            disabled={isOverlayLoading}
+          >
+            {isOverlayLoading ? <Loader2 className="w-3 h-3 mr-2 animate-spin" /> : <Crosshair className="w-3 h-3 mr-2" />}
+            {tradeOverlay?.key === overlayKey ? `Hide ${activeTimeframe} Backtest Trades` : `Overlay ${activeTimeframe} Backtest Trades`}
+          </Button>
+          {tradeOverlay?.key === overlayKey && (
+            <span className="text-neutral-400">
+              {overlayTrades.length} of {tradeOverlay.trades.length} trades in view
+            </span>
+          )}
+          {overlayError && <span className="text-rose-400">{overlayError}</span>}
+          <div className="ml-auto" />
+          <IndicatorPicker selected={indicators} onChange={handleIndicatorsChange} />
+          <ToggleGroup type="single" value={chartMode} onValueChange={handleChartModeChange}>
+            <ToggleGroupItem value="line" size="sm" title="Line" className="data-[state=on]:bg-rose-500">
+              <LineChart className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="candle" size="sm" title="Candles" className="data-[state=on]:bg-rose-500">
+              <CandlestickChart className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          {!isMobile && (
+            <ToggleGroup type="single" value={layoutMode} onValueChange={handleLayoutModeChange}>
+              <ToggleGroupItem value="tabs" size="sm" title="One timeframe at a time" className="data-[state=on]:bg-rose-500">
+                <Square className="w-4 h-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="grid" size="sm" title="Timeframes side by side" className="data-[state=on]:bg-rose-500">
+                <Columns2 className="w-4 h-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+          )}
+        </div>
 
-            {/* Chart */}
-            <div style={{ width: "100%", height: 380 }}>
-              <Plot
-                data={[
-                  {
-                    x: (activeData.ohlcv || []).map((d: any) => d.Date),
-                    y: (activeData.ohlcv || []).map((d: any) => d.Close),
-                    type: "scatter",
-                    mode: "lines",
-                    name: "Close",
-                    line: { color: "#818cf8", width: 2 },
-                  },
-                  ...(activeData.peaks?.length ? [{
-                    x: activeData.peaks.map((i: number) => activeData.ohlcv[i]?.Date),
-                    y: activeData.peaks.map((i: number) => activeData.ohlcv[i]?.Close),
-                    type: "scatter",
-                    mode: "markers",
-                    name: "Peaks",
-                    marker: { color: "#22c55e", size: 11, symbol: "triangle-up" },
-                  }] : []),
-                  ...(activeData.troughs?.length ? [{
-                    x: activeData.troughs.map((i: number) => activeData.ohlcv[i]?.Date),
-                    y: activeData.troughs.map((i: number) => activeData.ohlcv[i]?.Close),
-                    type: "scatter",
-                    mode: "markers",
-                    name: "Troughs",
-                    marker: { color: "#ef4444", size: 11, symbol: "triangle-down" },
-                  }] : []),
-                  ...(activeData.prediction?.estimated_value && activeData.ohlcv?.length ? [{
-                    x: [activeData.ohlcv[activeData.ohlcv.length - 1]?.Date],
-                    y: [activeData.prediction.estimated_value],
-                    type: "scatter",
-                    mode: "markers",
-                    name: `Next ${activeData.prediction.predicted_type_name}`,
-                    marker: { color: "#a78bfa", size: 16, symbol: "star", line: { color: "#fff", width: 1.5 } },
-                  }] : []),
-                  ...(activeData.support != null ? [{
-                    x: (activeData.ohlcv || []).map((d: any) => d.Date),
-                    y: Array((activeData.ohlcv || []).length).fill(activeData.support),
-                    type: "scatter", mode: "lines", name: "Support",
-                    line: { color: "#3b82f6", width: 1.5, dash: "dot" }, hoverinfo: "skip",
-                  }] : []),
-                  ...(activeData.resistance != null ? [{
-                    x: (activeData.ohlcv || []).map((d: any) => d.Date),
-                    y: Array((activeData.ohlcv || []).length).fill(activeData.resistance),
-                    type: "scatter", mode: "lines", name: "Resistance",
-                    line: { color: "#f87171", width: 1.5, dash: "dot" }, hoverinfo: "skip",
-                  }] : []),
-                  ...(activeData.entry != null ? [{
-                    x: (activeData.ohlcv || []).map((d: any) => d.Date),
-                    y: Array((activeData.ohlcv || []).length).fill(activeData.entry),
-                    type: "scatter", mode: "lines", name: "Entry",
-                    line: { color: "#c084fc", width: 1.5, dash: "dash" }, hoverinfo: "skip",
-                  }] : []),
-                ]}
-                layout={{
-                  autosize: true,
-                  height: 380,
-                  margin: { t: 20, r: 20, l: 50, b: 50 },
-                  paper_bgcolor: "#18181b",
-                  plot_bgcolor: "#18181b",
-                  font: { color: "#fff", size: 11 },
-                  xaxis: { title: "Date", tickformat: "%m/%d", showgrid: true, gridcolor: "#333", type: "date" },
-                  yaxis: { title: "Price", showgrid: true, gridcolor: "#333" },
-                  legend: { orientation: "h", y: -0.18, font: { size: 10 } },
-                }}
-                useResizeHandler={true}
-                style={{ width: "100%", height: "100%" }}
-                config={{ displayModeBar: false }}
-              />
-            </div>
-          </CardContent>
-        </Card>
+        {/* Per-interval detail */}
+        {showGrid ? (
+          <ResizablePanelGroup
+            direction="horizontal"
+            className="rounded-lg"
+            onLayout={() => window.dispatchEvent(new Event("resize"))}
+          >
+            {timeframes.map(({ interval }, i) => (
+              <Fragment key={interval}>
+                {i > 0 && <ResizableHandle withHandle className="mx-1 bg-neutral-800" />}
+                <ResizablePanel defaultSize={100 / timeframes.length} minSize={20}>
+                  <div
+                    onClick={() => setActiveTimeframe(interval)}
+                    className={`rounded-lg ${interval === activeTimeframe ? "ring-1 ring-rose-500" : ""}`}
+                  >
+                    <IntervalPanel
+                      interval={interval}
+                      symbol={symbol}
+                      data={intervals[interval] || {}}
+                      chartMode={chartMode}
+                      indicators={indicators}
+                      extraTraces={tradeTracesFor(interval)}
+                      sync={chartSync}
+                      compact
+                    />
+                  </div>
+                </ResizablePanel>
+              </Fragment>
+            ))}
+          </ResizablePanelGroup>
+        ) : (
+          <IntervalPanel
+            interval={activeTimeframe}
+            symbol={symbol}
+            data={activeData}
+            chartMode={chartMode}
+            indicators={indicators}
+            extraTraces={buildTradeTraces(overlayTrades)}
+          />
+        )}
 
       </div>
     </div>
@@ -0,0 +1,242 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, BarChart3, Download, ListChecks, RefreshCw, Trash2, Wallet } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import { usePaperTrades } from "@/hooks/use-paper-trades"
+import { describeApiError, fetchPredict } from "@/lib/api"
+import { downloadFile } from "@/lib/download"
+import {
+  announcePaperExits,
+  clearPaperTrades,
+  closePaperTrade,
+  markPaperTrades,
+  paperPnl,
+  paperTradesToCsv,
+  summarizePaperTrades,
+  type PaperTrade,
+} from "@/lib/paper-trading"
+import { buildPredictRequest, loadTimeframes } from "@/lib/timeframes"
+
+const STATUS_COLORS: Record<PaperTrade["status"], string> = {
+  open: "text-neutral-300",
+  tp: "text-emerald-400",
+  sl: "text-rose-400",
+  manual: "text-yellow-300",
+}
+
+const usd = (v: number) => `${v < 0 ? "−" : ""}$${Math.abs(v).toFixed(2)}`
+const pnlColor = (v: number) => (v > 0 ? "text-emerald-400" : v < 0 ? "text-rose-400" : "text-neutral-300")
+
+function TradeHead({ closed }: { closed: boolean }) {
+  return (
+    <TableHeader>
+      <TableRow className="border-neutral-700 hover:bg-transparent">
+        <TableHead>Opened</TableHead>
+        <TableHead>Symbol</TableHead>
+        <TableHead>Side</TableHead>
+        <TableHead className="text-right">Qty</TableHead>
+        <TableHead className="text-right">Entry</TableHead>
+        <TableHead className="text-right">SL</TableHead>
+        <TableHead className="text-right">TP</TableHead>
+        <TableHead className="text-right">{closed ? "Exit" : "Last"}</TableHead>
+        {closed && <TableHead>Result</TableHead>}
+        <TableHead className="text-right">P/L</TableHead>
+        {!closed && <TableHead />}
+      </TableRow>
+    </TableHeader>
+  )
+}
+
+export default function PaperTrading() {
+  const trades = usePaperTrades()
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const open = useMemo(() => trades.filter((t) => t.status === "open").reverse(), [trades])
+  const closed = useMemo(() => trades.filter((t) => t.status !== "open").reverse(), [trades])
+  const summary = summarizePaperTrades(trades)
+
+  // The dashboard marks trades on its own refreshes; this covers symbols it isn't showing
+  const refreshQuotes = async () => {
+    setIsRefreshing(true)
+    const symbols = Array.from(new Set(open.map((t) => t.symbol)))
+    for (const symbol of symbols) {
+      try {
+        announcePaperExits(markPaperTrades(symbol, await fetchPredict(buildPredictRequest(symbol, loadTimeframes()))))
+      } catch (e) {
+        toast({ variant: "destructive", ...describeApiError(e) })
+      }
+    }
+    setIsRefreshing(false)
+  }
+
+  const exportCsv = () =>
+    downloadFile(`murli-paper-trades-${new Date().toISOString().slice(0, 10)}.csv`, paperTradesToCsv(trades), "text/csv")
+
+  const stats = [
+    { label: "Open", value: String(summary.open) },
+    { label: "Closed", value: String(summary.closed) },
+    { label: "Win Rate", value: summary.winRate != null ? `${(summary.winRate * 100).toFixed(0)}%` : "—" },
+    { label: "Realized P/L", value: usd(summary.realized), color: pnlColor(summary.realized) },
+    { label: "Unrealized P/L", value: usd(summary.unrealized), color: pnlColor(summary.unrealized) },
+  ]
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="p-6 space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-rose-500 rounded flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold">Paper Trading</h1>
+          </div>
+          <Button asChild variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {stats.map((s) => (
+            <Card key={s.label} className="bg-neutral-900 border-neutral-700">
+              <CardContent className="pt-6">
+                <div className="text-neutral-400 text-sm mb-1">{s.label}</div>
+                <div className={`text-2xl font-mono font-semibold ${s.color ?? ""}`}>{s.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="bg-neutral-900 border-neutral-700">
+          <CardHeader>
+            <div className="flex items-center justify-between w-full flex-wrap gap-3">
+              <CardTitle className="flex items-center space-x-2">
+                <Wallet className="w-4 h-4 text-pink-500" />
+                <span>Positions</span>
+              </CardTitle>
+              <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={refreshQuotes} disabled={isRefreshing || !open.length}>
+                <RefreshCw className={`w-3 h-3 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
+                Refresh quotes
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {open.length ? (
+              <Table>
+                <TradeHead closed={false} />
+                <TableBody>
+                  {open.map((t) => (
+                    <TableRow key={t.id} className="border-neutral-800 hover:bg-neutral-800/60">
+                      <TableCell className="font-mono text-xs">{new Date(t.openedAt).toLocaleString()}</TableCell>
+                      <TableCell className="font-semibold">{t.symbol}</TableCell>
+                      <TableCell className={t.side === "CALL" ? "text-emerald-400" : "text-rose-400"}>{t.side === "CALL" ? "LONG" : "SHORT"}</TableCell>
+                      <TableCell className="text-right font-mono">{t.quantity}</TableCell>
+                      <TableCell className="text-right font-mono">{t.entry.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{t.sl.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{t.tp.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{t.lastPrice.toFixed(2)}</TableCell>
+                      <TableCell className={`text-right font-mono ${pnlColor(paperPnl(t))}`}>{usd(paperPnl(t))}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" className="h-7 bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={() => closePaperTrade(t.id)}>
+                          Close
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-neutral-400 text-sm">No open positions. Accept a CALL or PUT from the dashboard Signal card to open one.</p>
+            )}
+            <p className="mt-3 text-xs text-neutral-500">
+              Positions are marked on every dashboard or watchlist refresh of their symbol; manual closes fill at the last seen price.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-neutral-900 border-neutral-700">
+          <CardHeader>
+            <div className="flex items-center justify-between w-full flex-wrap gap-3">
+              <CardTitle className="flex items-center space-x-2">
+                <ListChecks className="w-4 h-4 text-pink-500" />
+                <span>Trade Log</span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={exportCsv} disabled={!trades.length}>
+                  <Download className="w-3 h-3 mr-2" />
+                  Export CSV
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800 text-rose-400" disabled={!trades.length}>
+                      <Trash2 className="w-3 h-3 mr-2" />
+                      Reset
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="bg-neutral-900 border-neutral-700 text-white">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Reset paper trading?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All open positions and the trade log in this browser are deleted. Export the CSV first to keep a copy.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">Cancel</AlertDialogCancel>
+                      <AlertDialogAction className="bg-rose-600 hover:bg-rose-700" onClick={clearPaperTrades}>Reset</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {closed.length ? (
+              <Table>
+                <TradeHead closed />
+                <TableBody>
+                  {closed.map((t) => (
+                    <TableRow key={t.id} className="border-neutral-800 hover:bg-neutral-800/60">
+                      <TableCell className="font-mono text-xs">{new Date(t.openedAt).toLocaleString()}</TableCell>
+                      <TableCell className="font-semibold">{t.symbol}</TableCell>
+                      <TableCell className={t.side === "CALL" ? "text-emerald-400" : "text-rose-400"}>{t.side === "CALL" ? "LONG" : "SHORT"}</TableCell>
+                      <TableCell className="text-right font-mono">{t.quantity}</TableCell>
+                      <TableCell className="text-right font-mono">{t.entry.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{t.sl.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{t.tp.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{t.exitPrice?.toFixed(2) ?? "—"}</TableCell>
+                      <TableCell className={`uppercase font-semibold ${STATUS_COLORS[t.status]}`}>{t.status}</TableCell>
+                      <TableCell className={`text-right font-mono ${pnlColor(paperPnl(t))}`}>{usd(paperPnl(t))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-neutral-400 text-sm">No closed trades yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+      </div>
+    </div>
+  )
+}
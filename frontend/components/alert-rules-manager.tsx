@@ -0,0 +1,204 @@
+"use client"
+
+import { useState } from "react"
+import { BellRing, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { useAlertRules } from "@/hooks/use-alert-rules"
+import { ANY, METRICS, OP_LABELS, describeRule, type RuleMetric, type RuleOp } from "@/lib/alert-rules"
+import { AVAILABLE_INTERVALS } from "@/lib/timeframes"
+
+const DEFAULT_COOLDOWN_MIN = 15
+
+interface RuleDraft {
+  symbol: string
+  interval: string
+  metric: RuleMetric
+  op: RuleOp
+  value: string
+  cooldownMin: string
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  symbol: "",
+  interval: ANY,
+  metric: "price",
+  op: "crosses_above",
+  value: "",
+  cooldownMin: String(DEFAULT_COOLDOWN_MIN),
+}
+
+const selectClass = "h-8 bg-neutral-800 border-neutral-600 text-white"
+
+export function AlertRulesManager() {
+  const { rules, log, reload, addRule, updateRule, removeRule, clearLog } = useAlertRules()
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT)
+
+  const spec = METRICS[draft.metric]
+  const needsValue = draft.op !== "becomes_true" && draft.op !== "becomes_false"
+  const value = Number(draft.value)
+  const cooldown = Number(draft.cooldownMin)
+  const isValid = (!needsValue || (draft.value.trim() !== "" && Number.isFinite(value))) && Number.isFinite(cooldown) && cooldown >= 0
+
+  const changeMetric = (metric: RuleMetric) => setDraft({ ...draft, metric, op: METRICS[metric].ops[0] })
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+    addRule({
+      id: `rule-${Date.now()}`,
+      symbol: draft.symbol.trim().toUpperCase() || ANY,
+      interval: spec.perInterval ? draft.interval : ANY,
+      metric: draft.metric,
+      op: draft.op,
+      value: needsValue ? value : 0,
+      enabled: true,
+      cooldownMin: cooldown,
+      lastFiredAt: null,
+    })
+    setDraft({ ...EMPTY_DRAFT, metric: draft.metric, op: draft.op })
+  }
+
+  return (
+    <Dialog onOpenChange={(open) => open && reload()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" title="Alert rules">
+          <BellRing className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-900 border-neutral-700 text-white max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="w-4 h-4 text-pink-500" />
+            Alert Rules
+          </DialogTitle>
+          <DialogDescription>
+            Checked against every prediction refresh. Hits always show as a toast and also notify the desktop when alerts are on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="rules">
+          <TabsList className="bg-neutral-800">
+            <TabsTrigger value="rules" className="data-[state=active]:bg-rose-500">Rules ({rules.length})</TabsTrigger>
+            <TabsTrigger value="log" className="data-[state=active]:bg-rose-500">Fired ({log.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules" className="space-y-4">
+            <form onSubmit={submit} className="flex flex-wrap items-center gap-2 text-sm">
+              <Input
+                value={draft.symbol}
+                onChange={(e) => setDraft({ ...draft, symbol: e.target.value })}
+                placeholder="Any"
+                className={`w-20 ${selectClass}`}
+              />
+              {spec.perInterval && (
+                <Select value={draft.interval} onValueChange={(interval) => setDraft({ ...draft, interval })}>
+                  <SelectTrigger className={`w-24 ${selectClass}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any TF</SelectItem>
+                    {AVAILABLE_INTERVALS.map((ivl) => <SelectItem key={ivl} value={ivl}>{ivl}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={draft.metric} onValueChange={(m) => changeMetric(m as RuleMetric)}>
+                <SelectTrigger className={`w-36 ${selectClass}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(METRICS) as RuleMetric[]).map((m) => <SelectItem key={m} value={m}>{METRICS[m].label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={draft.op} onValueChange={(op) => setDraft({ ...draft, op: op as RuleOp })}>
+                <SelectTrigger className={`w-36 ${selectClass}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {spec.ops.map((op) => <SelectItem key={op} value={op}>{OP_LABELS[op]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {needsValue && (
+                <Input
+                  value={draft.value}
+                  onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                  placeholder={spec.percent ? "%" : "value"}
+                  inputMode="decimal"
+                  className={`w-24 font-mono ${selectClass}`}
+                />
+              )}
+              <label className="flex items-center gap-1 text-neutral-400">
+                <Input
+                  value={draft.cooldownMin}
+                  onChange={(e) => setDraft({ ...draft, cooldownMin: e.target.value })}
+                  inputMode="numeric"
+                  className={`w-14 font-mono ${selectClass}`}
+                />
+                min
+              </label>
+              <Button type="submit" size="sm" className="bg-purple-600 hover:bg-purple-700" disabled={!isValid}>
+                <Plus className="w-3 h-3 mr-1" />
+                Add
+              </Button>
+            </form>
+
+            {!rules.length ? (
+              <p className="text-neutral-400 text-sm">No rules yet — e.g. SPY Price crosses above 512.40, or any timeframe R/R ≥ 2.</p>
+            ) : (
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {rules.map((rule) => (
+                  <div key={rule.id} className="flex items-center gap-3 rounded-md border border-neutral-700 px-3 py-2 text-sm">
+                    <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, { enabled })} />
+                    <div className="flex-1 min-w-0">
+                      <div className={rule.enabled ? "" : "text-neutral-500"}>{describeRule(rule)}</div>
+                      <div className="text-xs text-neutral-500">
+                        Last fired: {rule.lastFiredAt ? new Date(rule.lastFiredAt).toLocaleString() : "never"}
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-1 text-xs text-neutral-400" title="Cooldown between firings">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={rule.cooldownMin}
+                        onChange={(e) => updateRule(rule.id, { cooldownMin: Math.max(0, Number(e.target.value) || 0) })}
+                        className={`w-16 font-mono ${selectClass}`}
+                      />
+                      min
+                    </label>
+                    <button type="button" className="text-neutral-500 hover:text-rose-400" title="Delete rule" onClick={() => removeRule(rule.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="log" className="space-y-3">
+            {!log.length ? (
+              <p className="text-neutral-400 text-sm">Nothing has fired yet.</p>
+            ) : (
+              <>
+                <div className="max-h-80 overflow-y-auto space-y-1 text-sm">
+                  {log.map((hit, i) => (
+                    <div key={`${hit.ruleId}-${hit.firedAt}-${i}`} className="grid grid-cols-[9rem_1fr] gap-3 border-b border-neutral-800 py-1">
+                      <span className="font-mono text-xs text-neutral-400">{new Date(hit.firedAt).toLocaleString()}</span>
+                      <div>
+                        <div>{hit.label}</div>
+                        <div className="text-xs text-neutral-400">{hit.detail}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end">
+                  <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800 text-rose-400" onClick={clearLog}>
+                    <Trash2 className="w-3 h-3 mr-2" />
+                    Clear log
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FlaskConical, Plus, RefreshCw, Server, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { useBackendSettings } from "@/hooks/use-backend-settings"
+import { useBackendHealth } from "@/hooks/use-backend-health"
+import type { BackendHealth } from "@/lib/api"
+import type { BackendProfile } from "@/lib/backend-config"
+import { getMockScenario, MOCK_AVAILABLE, MOCK_SCENARIOS, setMockScenario, type MockScenario } from "@/lib/mock-backend"
+
+const MOCK_OFF = "off"
+
+function healthLabel(health: BackendHealth | null) {
+  if (!health) return "Checking…"
+  return health.status === "online" ? `Online · ${health.latencyMs} ms` : `Offline · ${health.error}`
+}
+
+function HealthDot({ health }: { health: BackendHealth | null }) {
+  const color = !health ? "bg-neutral-500 animate-pulse" : health.status === "online" ? "bg-emerald-500" : "bg-rose-500"
+  return <span className={`inline-block w-2.5 h-2.5 rounded-full ${color}`} title={healthLabel(health)} />
+}
+
+export function BackendSettings({ onProfileChange }: { onProfileChange?: () => void }) {
+  const { profiles, activeProfile, setActive, saveProfile, addProfile, removeProfile } = useBackendSettings()
+  const { health, ping } = useBackendHealth(activeProfile.baseUrl)
+  const [draft, setDraft] = useState<BackendProfile>(activeProfile)
+  const [mock, setMock] = useState<MockScenario | null>(null)
+
+  useEffect(() => {
+    setDraft(activeProfile)
+  }, [activeProfile])
+
+  useEffect(() => {
+    setMock(getMockScenario())
+  }, [])
+
+  const changeMock = (value: string) => {
+    const next = value === MOCK_OFF ? null : (value as MockScenario)
+    setMockScenario(next)
+    setMock(next)
+    onProfileChange?.()
+  }
+
+  const activate = (id: string) => {
+    if (id === activeProfile.id) return
+    setActive(id)
+    onProfileChange?.()
+  }
+
+  const addBlankProfile = () => {
+    addProfile({ id: `custom-${Date.now()}`, name: "New profile", baseUrl: activeProfile.baseUrl })
+    onProfileChange?.()
+  }
+
+  const saveDraft = () => {
+    saveProfile(draft)
+    onProfileChange?.()
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+          {mock ? (
+            <>
+              <FlaskConical className="w-4 h-4 text-amber-400" />
+              <span className="ml-2">Mock · {mock}</span>
+            </>
+          ) : (
+            <>
+              <HealthDot health={health} />
+              <span className="ml-2">{activeProfile.name}</span>
+            </>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-900 border-neutral-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Server className="w-4 h-4 text-pink-500" />
+            Backend
+          </DialogTitle>
+          <DialogDescription>
+            Choose which FastAPI server the dashboard talks to. Profiles are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {profiles.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => activate(p.id)}
+              className={`w-full flex items-center justify-between rounded-md border px-3 py-2 text-left text-sm ${p.id === activeProfile.id
+                ? "border-purple-500 bg-purple-950/40"
+                : "border-neutral-700 hover:bg-neutral-800"}`}
+            >
+              <span className="font-semibold">{p.name}</span>
+              <span className="font-mono text-xs text-neutral-400">{p.baseUrl}</span>
+            </button>
+          ))}
+        </div>
+
+        {MOCK_AVAILABLE && (
+          <div className="space-y-2 border-t border-neutral-700 pt-4 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-neutral-300">
+                <FlaskConical className="w-4 h-4 text-amber-400" />
+                Mock backend
+              </label>
+              <Select value={mock ?? MOCK_OFF} onValueChange={changeMock}>
+                <SelectTrigger className="w-40 h-8 bg-neutral-800 border-neutral-600 text-white"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MOCK_OFF}>Off</SelectItem>
+                  {Object.keys(MOCK_SCENARIOS).map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-neutral-400">
+              {mock
+                ? `${MOCK_SCENARIOS[mock]}. Requests never leave the browser.`
+                : "Serve synthetic data without a server, for offline work and demos. Nothing it serves is journaled or paper traded."}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-3 border-t border-neutral-700 pt-4">
+          <div className="grid grid-cols-3 gap-2 items-center text-sm">
+            <label className="text-neutral-300">Name</label>
+            <Input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="col-span-2 bg-neutral-800 border-neutral-600 text-white"
+            />
+            <label className="text-neutral-300">Base URL</label>
+            <Input
+              value={draft.baseUrl}
+              onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+              className="col-span-2 bg-neutral-800 border-neutral-600 text-white font-mono"
+              placeholder="http://127.0.0.1:8000"
+            />
+          </div>
+          <div className="flex items-center gap-2 text-xs text-neutral-400">
+            <HealthDot health={health} />
+            {healthLabel(health)}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" className="bg-purple-600 hover:bg-purple-700" onClick={saveDraft}>Save</Button>
+            <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={ping}>
+              <RefreshCw className="w-3 h-3 mr-2" />
+              Test
+            </Button>
+            <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={addBlankProfile}>
+              <Plus className="w-3 h-3 mr-2" />
+              Add
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto bg-neutral-900 border-neutral-600 hover:bg-neutral-800 text-rose-400"
+              onClick={() => {
+                removeProfile(activeProfile.id)
+                onProfileChange?.()
+              }}
+              disabled={profiles.length <= 1}
+            >
+              <Trash2 className="w-3 h-3 mr-2" />
+              Remove
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
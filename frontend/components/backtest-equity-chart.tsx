@@ -0,0 +1,101 @@
+"use client"
+
+import { useMemo } from "react"
+import Plot from 'react-plotly.js'
+import type { BacktestTrade } from "@/lib/api"
+import { buildEquityCurve } from "@/lib/backtest"
+import { EXIT_REASON_COLORS } from "@/lib/chart-traces"
+
+interface BacktestEquityChartProps {
+  trades: BacktestTrade[]
+  selectedIndex: number | null
+  onSelectTrade: (index: number) => void
+}
+
+export function BacktestEquityChart({ trades, selectedIndex, onSelectTrade }: BacktestEquityChartProps) {
+  const curve = useMemo(() => buildEquityCurve(trades), [trades])
+  const selected = selectedIndex != null ? curve[selectedIndex] : undefined
+  const hover = curve.map((p) => {
+    const t = trades[p.tradeIndex]
+    return `#${p.tradeIndex + 1} ${t.signal_type === "Peak" ? "Long" : "Short"} · ${t.exit_reason ?? "—"}<br>`
+      + `${t.entry_time ?? "—"} → ${t.exit_time ?? "—"}<br>`
+      + `P/L ${t.pnl_pct?.toFixed(3) ?? "—"}% · Equity ${p.equity.toFixed(2)}% · DD ${p.drawdown.toFixed(2)}%`
+  })
+
+  return (
+    <div style={{ width: "100%", height: 460 }}>
+      <Plot
+        data={[
+          {
+            x: curve.map((p) => p.time),
+            y: curve.map((p) => p.equity),
+            customdata: curve.map((p) => p.tradeIndex),
+            text: hover,
+            hoverinfo: "text",
+            type: "scatter",
+            mode: "lines+markers",
+            name: "Equity",
+            line: { color: "#818cf8", width: 2 },
+            marker: {
+              size: 7,
+              color: curve.map((p) => EXIT_REASON_COLORS[trades[p.tradeIndex].exit_reason ?? "timeout"]),
+            },
+          },
+          {
+            x: curve.map((p) => p.time),
+            y: curve.map((p) => p.drawdown),
+            customdata: curve.map((p) => p.tradeIndex),
+            text: hover,
+            hoverinfo: "text",
+            type: "scatter",
+            mode: "lines",
+            fill: "tozeroy",
+            name: "Drawdown",
+            line: { color: "#f87171", width: 1.5 },
+            fillcolor: "rgba(248,113,113,0.25)",
+            xaxis: "x",
+            yaxis: "y2",
+          },
+          ...(selected ? [{
+            x: [selected.time],
+            y: [selected.equity],
+            type: "scatter",
+            mode: "markers",
+            marker: { color: "#a78bfa", size: 16, symbol: "star", line: { color: "#fff", width: 1.5 } },
+            hoverinfo: "skip",
+            showlegend: false,
+          }, {
+            x: [selected.time],
+            y: [selected.drawdown],
+            yaxis: "y2",
+            type: "scatter",
+            mode: "markers",
+            marker: { color: "#a78bfa", size: 12, symbol: "star", line: { color: "#fff", width: 1.5 } },
+            hoverinfo: "skip",
+            showlegend: false,
+          }] : []),
+        ]}
+        layout={{
+          autosize: true,
+          height: 460,
+          margin: { t: 20, r: 20, l: 60, b: 50 },
+          paper_bgcolor: "#18181b",
+          plot_bgcolor: "#18181b",
+          font: { color: "#fff", size: 11 },
+          hovermode: "closest",
+          xaxis: { tickformat: "%m/%d", showgrid: true, gridcolor: "#333", type: "date", anchor: "y2" },
+          yaxis: { title: "Cumulative P/L %", domain: [0.35, 1], showgrid: true, gridcolor: "#333", zeroline: true, zerolinecolor: "#555" },
+          yaxis2: { title: "Drawdown %", domain: [0, 0.28], showgrid: true, gridcolor: "#333" },
+          legend: { orientation: "h", y: -0.15, font: { size: 10 } },
+        }}
+        onClick={(e: any) => {
+          const idx = e.points?.[0]?.customdata
+          if (typeof idx === "number") onSelectTrade(idx)
+        }}
+        useResizeHandler={true}
+        style={{ width: "100%", height: "100%" }}
+        config={{ displayModeBar: false }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Play } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { BacktestRequest } from "@/lib/api"
+import { DEFAULT_BACKTEST_PARAMS } from "@/lib/backtest"
+import { AVAILABLE_INTERVALS } from "@/lib/timeframes"
+
+const backtestFormSchema = z.object({
+  symbol: z.string().trim().min(1, "Required").transform((s) => s.toUpperCase()),
+  interval: z.string().min(1),
+  period: z.string().regex(/^\d+(d|mo|y)$/, "Use a yfinance period like 365d, 6mo or 2y"),
+  lookback: z.coerce.number().int().min(1).max(50),
+  min_train_pivots: z.coerce.number().int().min(5),
+  sl_atr_mult: z.coerce.number().positive(),
+  tp_atr_mult: z.coerce.number().positive(),
+  max_holding_bars: z.coerce.number().int().min(1),
+})
+
+const NUMERIC_FIELDS: { name: Exclude<keyof BacktestRequest, "symbol" | "interval" | "period">; label: string; step: string }[] = [
+  { name: "lookback", label: "Lookback", step: "1" },
+  { name: "min_train_pivots", label: "Min Train Pivots", step: "1" },
+  { name: "sl_atr_mult", label: "SL × ATR", step: "0.1" },
+  { name: "tp_atr_mult", label: "TP × ATR", step: "0.1" },
+  { name: "max_holding_bars", label: "Max Holding Bars", step: "1" },
+]
+
+interface BacktestFormProps {
+  onSubmit: (params: BacktestRequest) => void
+  isRunning: boolean
+}
+
+export function BacktestForm({ onSubmit, isRunning }: BacktestFormProps) {
+  const form = useForm<z.input<typeof backtestFormSchema>, unknown, BacktestRequest>({
+    resolver: zodResolver(backtestFormSchema),
+    defaultValues: DEFAULT_BACKTEST_PARAMS,
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <FormField
+            control={form.control}
+            name="symbol"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Symbol</FormLabel>
+                <FormControl>
+                  <Input {...field} className="bg-neutral-800 border-neutral-600 text-white" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Interval</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="bg-neutral-800 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {AVAILABLE_INTERVALS.map((ivl) => (
+                      <SelectItem key={ivl} value={ivl}>{ivl}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="period"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Period</FormLabel>
+                <FormControl>
+                  <Input {...field} className="bg-neutral-800 border-neutral-600 text-white" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {NUMERIC_FIELDS.map(({ name, label, step }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-neutral-300">{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step={step}
+                      {...field}
+                      value={field.value as number | string}
+                      className="bg-neutral-800 border-neutral-600 text-white font-mono"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <Button type="submit" className="bg-purple-600 hover:bg-purple-700" disabled={isRunning}>
+          <Play className="w-4 h-4 mr-2" />
+          {isRunning ? "Running…" : "Run Backtest"}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,51 @@
+import type { BacktestResponse } from "@/lib/api"
+
+const pct = (v: number | undefined, digits = 2) => (v != null ? `${v.toFixed(digits)}%` : "—")
+
+export function BacktestMetrics({ result }: { result: BacktestResponse }) {
+  const m = result.metrics
+
+  if (!m.total_trades) {
+    return <p className="text-neutral-400 text-sm">{m.note || "No trades met filters."}</p>
+  }
+
+  const stats: [string, string, string?][] = [
+    ["Trades", String(m.total_trades)],
+    ["Win Rate", pct(m.win_rate != null ? m.win_rate * 100 : undefined, 1),
+      m.win_rate != null && m.win_rate >= 0.5 ? "text-emerald-400" : "text-rose-400"],
+    ["Profit Factor", m.profit_factor != null ? m.profit_factor.toFixed(2) : "∞",
+      m.profit_factor == null || m.profit_factor >= 1 ? "text-emerald-400" : "text-rose-400"],
+    ["Expectancy", pct(m.expectancy_pct, 3),
+      (m.expectancy_pct ?? 0) > 0 ? "text-emerald-400" : "text-rose-400"],
+    ["Total Return", pct(m.total_return_pct)],
+    ["Max Drawdown", pct(m.max_drawdown_pct), "text-rose-400"],
+    ["Avg Win / Loss", `${pct(m.avg_win_pct)} / ${pct(m.avg_loss_pct)}`],
+    ["Avg Confidence", pct(m.avg_confidence != null ? m.avg_confidence * 100 : undefined, 0)],
+  ]
+  const reasons = m.by_exit_reason
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        {stats.map(([label, value, color]) => (
+          <div key={label}>
+            <div className="text-neutral-400 mb-1">{label}</div>
+            <div className={`text-xl font-mono font-semibold ${color ?? ""}`}>{value}</div>
+          </div>
+        ))}
+      </div>
+      {reasons && (
+        <div className="flex flex-wrap gap-4 text-xs text-neutral-400">
+          <span>Exits —</span>
+          <span>TP: <span className="text-emerald-400 font-mono">{reasons.tp ?? 0}</span></span>
+          <span>SL: <span className="text-rose-400 font-mono">{reasons.sl ?? 0}</span></span>
+          <span>Timeout: <span className="text-yellow-300 font-mono">{reasons.timeout ?? 0}</span></span>
+          <span className="ml-auto">
+            {result.total_bars} bars · {result.total_pivots} pivots · skipped {result.skipped_low_confidence} low-conf,
+            {" "}{result.skipped_low_rr} low-R/R, {result.skipped_no_data} no-data
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
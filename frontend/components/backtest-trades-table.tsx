@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { BacktestTrade } from "@/lib/api"
+
+type SortKey = "entry_time" | "signal_type" | "confidence" | "entry_price" | "exit_price" | "exit_reason" | "pnl_pct"
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "entry_time", label: "Entry Time" },
+  { key: "signal_type", label: "Side" },
+  { key: "confidence", label: "Conf.", numeric: true },
+  { key: "entry_price", label: "Entry", numeric: true },
+  { key: "exit_price", label: "Exit", numeric: true },
+  { key: "exit_reason", label: "Reason" },
+  { key: "pnl_pct", label: "P/L %", numeric: true },
+]
+
+const REASON_COLORS: Record<string, string> = {
+  tp: "text-emerald-400",
+  sl: "text-rose-400",
+  timeout: "text-yellow-300",
+}
+
+function compare(a: string | number | null, b: string | number | null) {
+  if (a == null) return b == null ? 0 : 1
+  if (b == null) return -1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+interface BacktestTradesTableProps {
+  trades: BacktestTrade[]
+  selectedIndex?: number | null
+  onSelectTrade?: (index: number) => void
+}
+
+export function BacktestTradesTable({ trades, selectedIndex, onSelectTrade }: BacktestTradesTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("entry_time")
+  const [sortDesc, setSortDesc] = useState(false)
+  const selectedRowRef = useRef<HTMLTableRowElement>(null)
+
+  const sorted = useMemo(() => {
+    const rows = trades.map((trade, index) => ({ trade, index }))
+    rows.sort((a, b) => compare(a.trade[sortKey], b.trade[sortKey]) * (sortDesc ? -1 : 1))
+    return rows
+  }, [trades, sortKey, sortDesc])
+
+  useEffect(() => {
+    selectedRowRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+  }, [selectedIndex])
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(!sortDesc)
+    else {
+      setSortKey(key)
+      setSortDesc(false)
+    }
+  }
+
+  if (!trades.length) return <p className="text-neutral-400 text-sm">No trades.</p>
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-neutral-700 hover:bg-transparent">
+          {COLUMNS.map(({ key, label, numeric }) => (
+            <TableHead key={key} className={numeric ? "text-right" : undefined}>
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 text-neutral-400 hover:text-white"
+                onClick={() => toggleSort(key)}
+              >
+                {label}
+                {sortKey !== key ? <ArrowUpDown className="w-3 h-3" />
+                  : sortDesc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />}
+              </button>
+            </TableHead>
+          ))}
+          <TableHead>Exit Time</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map(({ trade: t, index }) => (
+          <TableRow
+            key={index}
+            ref={index === selectedIndex ? selectedRowRef : undefined}
+            data-state={index === selectedIndex ? "selected" : undefined}
+            onClick={() => onSelectTrade?.(index)}
+            className="border-neutral-800 hover:bg-neutral-800/60 data-[state=selected]:bg-purple-900/40 cursor-pointer"
+          >
+            <TableCell className="font-mono text-xs">{t.entry_time ?? "—"}</TableCell>
+            <TableCell className={t.signal_type === "Peak" ? "text-emerald-400" : "text-rose-400"}>
+              {t.signal_type === "Peak" ? "Long" : "Short"}
+            </TableCell>
+            <TableCell className="text-right font-mono">{(t.confidence * 100).toFixed(0)}%</TableCell>
+            <TableCell className="text-right font-mono">${t.entry_price.toFixed(2)}</TableCell>
+            <TableCell className="text-right font-mono">{t.exit_price != null ? `$${t.exit_price.toFixed(2)}` : "—"}</TableCell>
+            <TableCell className={`uppercase ${REASON_COLORS[t.exit_reason ?? ""] ?? "text-neutral-400"}`}>
+              {t.exit_reason ?? "—"}
+            </TableCell>
+            <TableCell className={`text-right font-mono ${(t.pnl_pct ?? 0) > 0 ? "text-emerald-400" : "text-rose-400"}`}>
+              {t.pnl_pct != null ? t.pnl_pct.toFixed(3) : "—"}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{t.exit_time ?? "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { Gauge } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { summarizeLiveSignals, type LiveSignal, type LiveSignalStatus } from "@/lib/forward-test"
+
+const STATUS_COLORS: Record<LiveSignalStatus, string> = {
+  open: "text-neutral-300",
+  tp: "text-emerald-400",
+  sl: "text-rose-400",
+  timeout: "text-yellow-300",
+}
+
+function pct(v: number | null) {
+  return v != null ? `${(v * 100).toFixed(0)}%` : "—"
+}
+
+function Stat({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-neutral-400 mb-1">{label}</div>
+      <div className={`text-lg font-bold ${className ?? ""}`}>{value}</div>
+    </div>
+  )
+}
+
+export function ForwardTestCard({ signals }: { signals: LiveSignal[] }) {
+  const summary = summarizeLiveSignals(signals)
+  const recent = [...signals].reverse().slice(0, 25)
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-700">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Gauge className="w-4 h-4 text-pink-500" />
+          <span>Live Track Record</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <Stat label="Signals" value={`${summary.closed} graded · ${summary.open} open`} />
+          <Stat label="Hit Rate" value={pct(summary.hitRate)} className="text-emerald-400" />
+          <Stat
+            label="Avg R Multiple"
+            value={summary.avgR != null ? `${summary.avgR >= 0 ? "+" : ""}${summary.avgR.toFixed(2)}R` : "—"}
+            className={summary.avgR == null ? "" : summary.avgR >= 0 ? "text-emerald-400" : "text-rose-400"}
+          />
+          <Stat label="Avg Bars to Exit" value={summary.avgBarsToExit != null ? summary.avgBarsToExit.toFixed(1) : "—"} />
+          <Stat label="Total" value={String(summary.total)} />
+        </div>
+
+        <div>
+          <div className="text-sm text-neutral-400 mb-2">Calibration — hit rate by average agreeing confidence</div>
+          <div className="space-y-1 text-xs">
+            {summary.buckets.map((b) => (
+              <div key={b.label} className="grid grid-cols-[5rem_1fr_7rem] items-center gap-3">
+                <span className="font-mono text-neutral-400">{b.label}</span>
+                <div className="relative h-3 rounded bg-neutral-800">
+                  {b.hitRate != null && (
+                    <div className="absolute inset-y-0 left-0 rounded bg-emerald-600" style={{ width: `${b.hitRate * 100}%` }} />
+                  )}
+                  {b.avgConfidence != null && (
+                    <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: `${b.avgConfidence * 100}%` }} title="Average confidence" />
+                  )}
+                </div>
+                <span className="text-right font-mono">{pct(b.hitRate)} <span className="text-neutral-500">n={b.count}</span></span>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-neutral-500">
+            Bars show the share of graded signals that reached TP; the white tick is the confidence the model claimed.
+          </p>
+        </div>
+
+        {recent.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-neutral-700 hover:bg-transparent">
+                <TableHead>Opened</TableHead>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Signal</TableHead>
+                <TableHead className="text-right">Conf.</TableHead>
+                <TableHead className="text-right">Entry</TableHead>
+                <TableHead className="text-right">SL</TableHead>
+                <TableHead className="text-right">TP</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead className="text-right">Bars</TableHead>
+                <TableHead className="text-right">R</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recent.map((s) => (
+                <TableRow key={s.id} className="border-neutral-800 hover:bg-neutral-800/60">
+                  <TableCell className="font-mono text-xs">{new Date(s.openedAt).toLocaleString()}</TableCell>
+                  <TableCell className="font-semibold">{s.symbol}</TableCell>
+                  <TableCell className={s.signal === "CALL" ? "text-emerald-400" : "text-rose-400"}>{s.signal}</TableCell>
+                  <TableCell className="text-right font-mono">{pct(s.confidence)}</TableCell>
+                  <TableCell className="text-right font-mono">{s.entry.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">{s.sl.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">{s.tp.toFixed(2)}</TableCell>
+                  <TableCell className={`uppercase font-semibold ${STATUS_COLORS[s.status]}`}>{s.status}</TableCell>
+                  <TableCell className="text-right font-mono">{s.barsToExit ?? "—"}</TableCell>
+                  <TableCell className="text-right font-mono">{s.rMultiple != null ? s.rMultiple.toFixed(2) : "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-neutral-400 text-sm">No CALL or PUT signals recorded yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
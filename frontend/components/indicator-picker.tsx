@@ -0,0 +1,54 @@
+"use client"
+
+import { Activity } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { INDICATORS, type IndicatorId } from "@/lib/chart-traces"
+
+interface IndicatorPickerProps {
+  selected: IndicatorId[]
+  onChange: (next: IndicatorId[]) => void
+}
+
+export function IndicatorPicker({ selected, onChange }: IndicatorPickerProps) {
+  const ids = Object.keys(INDICATORS) as IndicatorId[]
+  const toggle = (id: IndicatorId, on: boolean) =>
+    onChange(on ? [...selected, id] : selected.filter((s) => s !== id))
+
+  const renderGroup = (panel: boolean) =>
+    ids.filter((id) => INDICATORS[id].panel === panel).map((id) => (
+      <DropdownMenuCheckboxItem
+        key={id}
+        checked={selected.includes(id)}
+        onCheckedChange={(on) => toggle(id, on)}
+        onSelect={(e) => e.preventDefault()}
+      >
+        {INDICATORS[id].label}
+      </DropdownMenuCheckboxItem>
+    ))
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+          <Activity className="w-3 h-3 mr-2" />
+          Indicators{selected.length ? ` (${selected.length})` : ""}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        <DropdownMenuLabel>Overlays</DropdownMenuLabel>
+        {renderGroup(false)}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Panels</DropdownMenuLabel>
+        {renderGroup(true)}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
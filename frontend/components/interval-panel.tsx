@@ -0,0 +1,139 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Waves } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { PivotInspector } from "@/components/pivot-inspector"
+import { PriceChart, type ChartSync } from "@/components/price-chart"
+import type { IntervalResult } from "@/lib/api"
+import { buildPivotHighlight, type ChartMode, type IndicatorId } from "@/lib/chart-traces"
+import { rrColor } from "@/lib/format"
+import { pivotsFor } from "@/lib/pivots"
+
+interface IntervalPanelProps {
+  interval: string
+  symbol: string
+  data: Partial<IntervalResult>
+  chartMode: ChartMode
+  indicators: IndicatorId[]
+  extraTraces?: any[]
+  sync?: ChartSync
+  compact?: boolean
+}
+
+export function IntervalPanel({ interval, symbol, data, chartMode, indicators, extraTraces, sync, compact }: IntervalPanelProps) {
+  const gridCols = compact ? "grid-cols-2" : "grid-cols-2 md:grid-cols-4"
+  const pivots = useMemo(() => pivotsFor(data), [data])
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
+  // Selection is kept by time so it survives the window scrolling on refresh
+  const [selectedTime, setSelectedTime] = useState<string | null>(null)
+  const selected = pivots.find((p) => p.time === selectedTime) ?? null
+  const active = pivots.find((p) => p.index === hoveredIndex) ?? selected
+  const traces = selected ? [...(extraTraces ?? []), ...buildPivotHighlight(data, selected.index, chartMode)] : extraTraces
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-700">
+      <CardHeader>
+        <div className="flex items-center justify-between w-full">
+          <CardTitle>{interval} — {symbol}</CardTitle>
+          <div className="text-xs text-neutral-400 space-x-4">
+            <span>ATR: <span className={data.low_volatility ? "text-yellow-300" : "text-white"}>
+              {data.atr != null ? data.atr.toFixed(3) : "—"}
+            </span></span>
+            <span>ATR/Close: <span className="text-white">
+              {data.atr_ratio != null ? (data.atr_ratio * 100).toFixed(2) + "%" : "—"}
+            </span></span>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data.prediction && data.prediction.predicted_type_name !== "Unknown" ? (
+          <div className={`grid ${gridCols} gap-4 mb-4 text-sm`}>
+            <div>
+              <div className="text-neutral-400 mb-1">Signal</div>
+              <div className="text-lg font-bold flex items-center gap-1">
+                {data.prediction.predicted_type_name}
+                {data.macd_tick && (
+                  <span className="text-emerald-400" title="MACD confirms">✓</span>
+                )}
+              </div>
+            </div>
+            <div>
+              <div className="text-neutral-400 mb-1">Confidence</div>
+              <div className="text-lg font-bold text-emerald-400">
+                {(data.prediction.confidence * 100).toFixed(0)}%
+              </div>
+            </div>
+            <div>
+              <div className="text-neutral-400 mb-1">Target Price</div>
+              <div className="text-lg font-bold">${data.prediction.estimated_value?.toFixed(2)}</div>
+            </div>
+            <div>
+              <div className="text-neutral-400 mb-1">Projected (ET)</div>
+              <div className="text-lg font-bold">{data.projected_time_et || "—"}</div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-neutral-400 mb-4 text-sm">No valid signal for {interval} — showing chart only.</p>
+        )}
+
+        <div className={`grid ${gridCols} gap-4 text-sm mb-4`}>
+          {[
+            ["Support", data.support],
+            ["Resistance", data.resistance],
+            ["Entry", data.entry],
+            ["Exit Target", data.exit_target],
+          ].map(([label, val]) => (
+            <div key={label as string}>
+              <span className="text-neutral-400">{label}: </span>
+              <span className="font-mono">{val != null ? `$${(val as number).toFixed(2)}` : "—"}</span>
+            </div>
+          ))}
+          <div>
+            <span className="text-neutral-400">R/R: </span>
+            <span className={`font-mono ${rrColor(data.risk_reward)}`}>
+              {data.risk_reward != null ? data.risk_reward.toFixed(2) : "—"}
+            </span>
+          </div>
+          <div>
+            <span className="text-neutral-400">Valid Setup: </span>
+            <span className={data.is_valid ? "text-emerald-400" : "text-rose-400"}>
+              {data.is_valid ? "Yes" : "No"}
+            </span>
+          </div>
+          <div>
+            <span className="text-neutral-400">Price: </span>
+            <span className="font-mono">{data.latest_price != null ? `$${data.latest_price.toFixed(2)}` : "—"}</span>
+          </div>
+          <div>
+            <span className="text-neutral-400">As of: </span>
+            <span className="font-mono text-xs">{data.latest_timestamp || "—"}</span>
+          </div>
+        </div>
+        <div className={compact ? "space-y-4" : "grid gap-4 xl:grid-cols-[minmax(0,1fr)_340px]"}>
+          <PriceChart
+            data={data}
+            interval={interval}
+            mode={chartMode}
+            indicators={indicators}
+            extraTraces={traces}
+            sync={sync}
+            onPivotHover={setHoveredIndex}
+            onPivotClick={(index) => {
+              const time = pivots.find((p) => p.index === index)?.time ?? null
+              setSelectedTime(time === selectedTime ? null : time)
+            }}
+          />
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <Waves className="w-4 h-4 text-pink-500" />
+              Pivots
+              <span className="text-neutral-400 font-normal">({pivots.length})</span>
+            </div>
+            <PivotInspector pivots={pivots} active={active} selectedTime={selectedTime} onSelect={setSelectedTime} />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
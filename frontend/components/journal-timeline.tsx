@@ -0,0 +1,81 @@
+"use client"
+
+import { ArrowRightLeft } from "lucide-react"
+import type { JournalEntry } from "@/lib/journal"
+import { rrColor } from "@/lib/format"
+
+export interface TimelineItem {
+  entry: JournalEntry
+  changes: string[]
+  isFlip: boolean
+}
+
+const SIGNAL_STYLES: Record<string, string> = {
+  CALL: "bg-emerald-900/60 text-emerald-300 border-emerald-700",
+  PUT: "bg-rose-900/60 text-rose-300 border-rose-700",
+  NO_TRADE: "bg-yellow-900/40 text-yellow-300 border-yellow-700",
+}
+
+function money(v: number | null) {
+  return v != null ? `$${v.toFixed(2)}` : "—"
+}
+
+export function JournalTimeline({ items }: { items: TimelineItem[] }) {
+  if (!items.length) {
+    return <p className="text-neutral-400 text-sm">Nothing recorded for these filters yet. Entries appear as the dashboard refreshes.</p>
+  }
+
+  return (
+    <ol className="relative border-l border-neutral-700 ml-2 space-y-3">
+      {items.map(({ entry, changes, isFlip }) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-2 w-3 h-3 rounded-full border ${isFlip ? "bg-purple-500 border-purple-300" : "bg-neutral-700 border-neutral-500"}`}
+          />
+          <div className={`rounded-lg border p-3 text-sm ${isFlip ? "border-purple-500 bg-purple-950/30" : "border-neutral-800 bg-neutral-900"}`}>
+            <div className="flex items-center gap-3 flex-wrap">
+              <span className="font-mono text-xs text-neutral-400">{new Date(entry.recordedAt).toLocaleString()}</span>
+              <span className="font-semibold">{entry.symbol}</span>
+              <span className={`rounded border px-2 py-0.5 text-xs font-semibold ${SIGNAL_STYLES[entry.signal]}`}>
+                {entry.signal.replace("_", " ")}
+              </span>
+              {entry.agreeing && <span className="text-xs text-neutral-400">{entry.agreeing} agree</span>}
+              <span className="ml-auto font-mono">{money(entry.price)}</span>
+            </div>
+
+            {entry.signal !== "NO_TRADE" ? (
+              <div className="mt-2 flex gap-4 flex-wrap text-xs">
+                <span>Entry: <span className="font-mono">{money(entry.entry)}</span></span>
+                <span>SL: <span className="font-mono text-rose-400">{money(entry.sl)}</span></span>
+                <span>TP: <span className="font-mono text-emerald-400">{money(entry.tp)}</span></span>
+                <span>Strike: <span className="font-mono">{money(entry.strike)}</span></span>
+                <span>R/R: <span className={`font-mono ${rrColor(entry.riskReward)}`}>
+                  {entry.riskReward != null ? entry.riskReward.toFixed(2) : "—"}
+                </span></span>
+              </div>
+            ) : (
+              entry.reason && <div className="mt-2 text-xs text-neutral-400">{entry.reason}</div>
+            )}
+
+            <div className="mt-2 flex gap-2 flex-wrap text-xs">
+              {entry.intervals.map((iv) => (
+                <span key={iv.interval} className="rounded bg-neutral-800 px-2 py-0.5 text-neutral-300">
+                  <span className="font-mono">{iv.interval}</span> {iv.prediction ?? "—"}
+                  {iv.prediction && iv.prediction !== "Unknown" && ` ${(iv.confidence * 100).toFixed(0)}%`}
+                  {iv.regime && <span className="text-neutral-500"> · {iv.regime}</span>}
+                </span>
+              ))}
+            </div>
+
+            {changes.length > 0 && (
+              <div className="mt-2 flex items-start gap-2 text-xs text-purple-300">
+                <ArrowRightLeft className="w-3 h-3 mt-0.5 shrink-0" />
+                <span>{changes.join(" · ")}</span>
+              </div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
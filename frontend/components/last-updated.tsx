@@ -0,0 +1,33 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceStrict } from "date-fns"
+import { Clock } from "lucide-react"
+
+interface LastUpdatedProps {
+  at: Date | null
+  staleAfterMs: number
+}
+
+export function LastUpdated({ at, staleAfterMs }: LastUpdatedProps) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), 15000)
+    return () => clearInterval(id)
+  }, [])
+
+  if (!at) return <span className="text-xs text-neutral-500">Never updated</span>
+
+  const isStale = now.getTime() - at.getTime() > staleAfterMs
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs ${isStale ? "text-yellow-300" : "text-neutral-400"}`}
+      title={at.toLocaleString()}
+    >
+      <Clock className="w-3 h-3" />
+      Updated {at.toLocaleTimeString()} ({formatDistanceStrict(at, now, { addSuffix: true })})
+      {isStale && <span className="font-semibold">· stale</span>}
+    </span>
+  )
+}
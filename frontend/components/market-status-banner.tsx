@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CalendarClock } from "lucide-react"
+import { getMarketStatus, nextOpen, shouldAutoRefresh, type SessionPhase } from "@/lib/market-hours"
+
+const PHASE_LABELS: Record<SessionPhase, string> = {
+  closed: "Market closed",
+  pre: "Pre-market",
+  regular: "Market open",
+  post: "After hours",
+}
+
+const PHASE_DOTS: Record<SessionPhase, string> = {
+  closed: "bg-neutral-500",
+  pre: "bg-yellow-400",
+  regular: "bg-emerald-500",
+  post: "bg-purple-400",
+}
+
+// What happens at `next.at`, keyed by the current phase
+const NEXT_EVENTS: Record<SessionPhase, string> = {
+  closed: "Pre-market opens",
+  pre: "Opens",
+  regular: "Closes",
+  post: "After hours end",
+}
+
+function countdown(ms: number) {
+  const total = Math.max(Math.floor(ms / 1000), 0)
+  const d = Math.floor(total / 86400)
+  const h = Math.floor((total % 86400) / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  if (d) return `${d}d ${h}h`
+  if (h) return `${h}h ${m}m`
+  return `${m}m ${String(s).padStart(2, "0")}s`
+}
+
+const etTime = (at: Date) =>
+  at.toLocaleString("en-US", { timeZone: "America/New_York", weekday: "short", hour: "numeric", minute: "2-digit" })
+
+export function MarketStatusBanner() {
+  const [now, setNow] = useState<Date | null>(null)
+
+  // Rendered client-only: the server clock and time zone would not match the browser's
+  useEffect(() => {
+    setNow(new Date())
+    const id = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(id)
+  }, [])
+
+  if (!now) return null
+  const { phase, today, next, closedFor } = getMarketStatus(now)
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap rounded-md border border-neutral-700 bg-neutral-900 px-4 py-2 text-sm">
+      <CalendarClock className="w-4 h-4 text-pink-500" />
+      <span className="flex items-center gap-2 font-semibold">
+        <span className={`w-2 h-2 rounded-full ${PHASE_DOTS[phase]}`} />
+        {PHASE_LABELS[phase]}
+        {closedFor && <span className="font-normal text-neutral-400">— {closedFor}</span>}
+      </span>
+      <span className="text-neutral-300">
+        {NEXT_EVENTS[phase]} {etTime(next.at)} ET · in <span className="font-mono">{countdown(next.at.getTime() - now.getTime())}</span>
+        {phase === "closed" && <span className="text-neutral-400"> · regular session {etTime(nextOpen(now))} ET</span>}
+      </span>
+      {today.earlyClose && today.isTradingDay && (
+        <span className="text-yellow-300">Early close today at {etTime(today.close)} ET</span>
+      )}
+      {!shouldAutoRefresh(now) && (
+        <span className="text-neutral-500">Auto-refresh paused until the regular session</span>
+      )}
+    </div>
+  )
+}
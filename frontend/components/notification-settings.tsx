@@ -0,0 +1,155 @@
+"use client"
+
+import { useState } from "react"
+import { Bell, BellOff, RotateCcw, Volume2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { useNotificationSettings } from "@/hooks/use-notification-settings"
+import {
+  EVENT_LABELS,
+  deliver,
+  requestNotificationPermission,
+  rulesFor,
+  type NotificationSettings as Settings,
+  type SignalEventKind,
+} from "@/lib/notifications"
+
+const EVENT_KINDS = Object.keys(EVENT_LABELS) as SignalEventKind[]
+
+export function NotificationSettings({ symbols }: { symbols: string[] }) {
+  const { settings, setSettings } = useNotificationSettings()
+  const [permission, setPermission] = useState<string | null>(null)
+
+  const patch = (changes: Partial<Settings>) => setSettings({ ...settings, ...changes })
+
+  const toggleEnabled = async (on: boolean) => {
+    if (on) setPermission(await requestNotificationPermission())
+    patch({ enabled: on })
+  }
+
+  const setRule = (symbol: string, kind: SignalEventKind, on: boolean) =>
+    patch({ symbols: { ...settings.symbols, [symbol]: { ...rulesFor(settings, symbol), [kind]: on } } })
+
+  const resetSymbol = (symbol: string) => {
+    const { [symbol]: _removed, ...rest } = settings.symbols
+    patch({ symbols: rest })
+  }
+
+  const sendTest = () =>
+    deliver({ kind: "newSignal", symbol: "TEST", title: "Murli test alert", body: "Alerts are working." }, settings)
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" title="Alerts">
+          {settings.enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4 text-neutral-500" />}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-900 border-neutral-700 text-white max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="w-4 h-4 text-pink-500" />
+            Alerts
+          </DialogTitle>
+          <DialogDescription>
+            Notify when an auto-refresh brings a new signal, a regime flip or a level cross. Settings are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <label className="flex items-center justify-between">
+            <span>Enable alerts</span>
+            <Switch checked={settings.enabled} onCheckedChange={toggleEnabled} />
+          </label>
+          <p className="text-xs text-neutral-400">
+            Signal, regime and level alerts arrive as a toast, a desktop notification and a sound. While off, only your alert rules fire, as toasts.
+          </p>
+          {(permission === "denied" || permission === "unsupported") && (
+            <p className="text-xs text-yellow-300">
+              {permission === "denied"
+                ? "The browser blocked notifications for this site; only in-page toasts and sounds will fire."
+                : "This browser has no Notification API; only in-page toasts and sounds will fire."}
+            </p>
+          )}
+          <label className="flex items-center justify-between">
+            <span className="flex items-center gap-2"><Volume2 className="w-3 h-3" /> Sound</span>
+            <Switch checked={settings.sound} onCheckedChange={(on) => patch({ sound: on })} />
+          </label>
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2">
+              <Switch
+                checked={settings.quietHours.enabled}
+                onCheckedChange={(on) => patch({ quietHours: { ...settings.quietHours, enabled: on } })}
+              />
+              Quiet hours
+            </label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={settings.quietHours.start}
+                onChange={(e) => patch({ quietHours: { ...settings.quietHours, start: e.target.value } })}
+                disabled={!settings.quietHours.enabled}
+                className="h-8 w-28 bg-neutral-800 border-neutral-600 text-white"
+              />
+              <span className="text-neutral-400">to</span>
+              <Input
+                type="time"
+                value={settings.quietHours.end}
+                onChange={(e) => patch({ quietHours: { ...settings.quietHours, end: e.target.value } })}
+                disabled={!settings.quietHours.enabled}
+                className="h-8 w-28 bg-neutral-800 border-neutral-600 text-white"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-neutral-700 pt-4">
+          <div className="grid grid-cols-[1fr_repeat(3,5.5rem)_1.5rem] gap-x-2 gap-y-2 items-center text-sm">
+            <span className="text-neutral-400 text-xs">Symbol</span>
+            {EVENT_KINDS.map((k) => (
+              <span key={k} className="text-neutral-400 text-xs text-center">{EVENT_LABELS[k]}</span>
+            ))}
+            <span />
+            <span className="font-semibold">Default</span>
+            {EVENT_KINDS.map((k) => (
+              <Checkbox
+                key={k}
+                checked={settings.defaults[k]}
+                onCheckedChange={(on) => patch({ defaults: { ...settings.defaults, [k]: on === true } })}
+                className="justify-self-center"
+              />
+            ))}
+            <span />
+            {symbols.map((symbol) => (
+              <div key={symbol} className="contents">
+                <span className={`font-mono ${settings.symbols[symbol] ? "" : "text-neutral-400"}`}>{symbol}</span>
+                {EVENT_KINDS.map((k) => (
+                  <Checkbox
+                    key={k}
+                    checked={rulesFor(settings, symbol)[k]}
+                    onCheckedChange={(on) => setRule(symbol, k, on === true)}
+                    className="justify-self-center"
+                  />
+                ))}
+                {settings.symbols[symbol] ? (
+                  <button type="button" className="text-neutral-500 hover:text-white" title="Use defaults" onClick={() => resetSymbol(symbol)}>
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                ) : <span />}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={sendTest}>
+            Send test alert
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
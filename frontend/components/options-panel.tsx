@@ -0,0 +1,220 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Layers, Loader2, RefreshCw, Sparkles } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  getOptionsProvider,
+  listOptionsProviders,
+  midPrice,
+  suggestContracts,
+  type OptionContract,
+  type OptionsChain,
+  type TradePlan,
+} from "@/lib/options-chain"
+import { readStored, writeStored } from "@/lib/storage"
+
+const PROVIDER_KEY = "murli.optionsProvider"
+const STRIKES_EACH_SIDE = 8
+// Warn when a fixture was captured far from today's price
+const STALE_PRICE_RATIO = 0.02
+
+interface OptionsPanelProps {
+  symbol: string
+  livePrice: number | null
+  plan: TradePlan | null
+  picked: OptionContract | null
+  onPick: (contract: OptionContract | null) => void
+}
+
+function Quote({ c, picked, onPick }: { c: OptionContract | undefined; picked: boolean; onPick: () => void }) {
+  if (!c) return <TableCell colSpan={4} />
+  const cls = `text-right font-mono cursor-pointer ${picked ? "bg-purple-900/50" : ""}`
+  return (
+    <>
+      <TableCell className={cls} onClick={onPick}>{c.bid.toFixed(2)}</TableCell>
+      <TableCell className={cls} onClick={onPick}>{c.ask.toFixed(2)}</TableCell>
+      <TableCell className={`${cls} text-neutral-400`} onClick={onPick}>{(c.iv * 100).toFixed(1)}%</TableCell>
+      <TableCell className={`${cls} text-neutral-400`} onClick={onPick}>{c.delta.toFixed(2)}</TableCell>
+    </>
+  )
+}
+
+export function OptionsPanel({ symbol, livePrice, plan, picked, onPick }: OptionsPanelProps) {
+  const [providerId, setProviderId] = useState("fixture")
+  const [chain, setChain] = useState<OptionsChain | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [expiry, setExpiry] = useState<string | null>(null)
+
+  useEffect(() => {
+    setProviderId(readStored(PROVIDER_KEY, "fixture"))
+  }, [])
+
+  const load = useCallback(async () => {
+    if (!symbol) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const next = await getOptionsProvider(providerId).fetchChain(symbol)
+      setChain(next)
+      setExpiry((prev) => (prev && next.contracts.some((c) => c.expiry === prev) ? prev : next.contracts[0]?.expiry ?? null))
+    } catch (e) {
+      setChain(null)
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [symbol, providerId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const expiries = useMemo(
+    () => (chain ? Array.from(new Set(chain.contracts.map((c) => c.expiry))).sort() : []),
+    [chain]
+  )
+
+  const suggestions = useMemo(() => (chain && plan ? suggestContracts(chain, plan) : []), [chain, plan])
+
+  const rows = useMemo(() => {
+    if (!chain || !expiry) return []
+    const center = livePrice ?? chain.underlying_price
+    const byStrike = new Map<number, { call?: OptionContract; put?: OptionContract }>()
+    for (const c of chain.contracts) {
+      if (c.expiry !== expiry) continue
+      byStrike.set(c.strike, { ...byStrike.get(c.strike), [c.type]: c })
+    }
+    const strikes = Array.from(byStrike.keys()).sort((a, b) => a - b)
+    const atm = strikes.reduce((best, k, i) => (Math.abs(k - center) < Math.abs(strikes[best] - center) ? i : best), 0)
+    return strikes
+      .slice(Math.max(atm - STRIKES_EACH_SIDE, 0), atm + STRIKES_EACH_SIDE + 1)
+      .map((strike) => ({ strike, ...byStrike.get(strike)! }))
+  }, [chain, expiry, livePrice])
+
+  const changeProvider = (id: string) => {
+    setProviderId(id)
+    writeStored(PROVIDER_KEY, id)
+  }
+
+  const togglePick = (c: OptionContract | undefined) => c && onPick(picked?.contract === c.contract ? null : c)
+
+  const priceGap = chain && livePrice ? Math.abs(chain.underlying_price - livePrice) / livePrice : 0
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-700">
+      <CardHeader>
+        <div className="flex items-center justify-between w-full flex-wrap gap-3">
+          <CardTitle className="flex items-center space-x-2">
+            <Layers className="w-4 h-4 text-pink-500" />
+            <span>Options — {symbol}</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={providerId} onValueChange={changeProvider}>
+              <SelectTrigger className="h-8 w-40 bg-neutral-800 border-neutral-600 text-white"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {listOptionsProviders().map((p) => <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {expiries.length > 0 && (
+              <Select value={expiry ?? undefined} onValueChange={setExpiry}>
+                <SelectTrigger className="h-8 w-36 bg-neutral-800 border-neutral-600 text-white font-mono"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {expiries.map((e) => <SelectItem key={e} value={e}>{e}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+            <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={load} disabled={isLoading}>
+              {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {error && <p className="text-rose-400">{error}</p>}
+        {chain && (
+          <>
+            <div className="text-xs text-neutral-400">
+              Chain as of {new Date(chain.as_of).toLocaleString()} · underlying ${chain.underlying_price.toFixed(2)}
+              {priceGap > STALE_PRICE_RATIO && (
+                <span className="text-yellow-300"> · {(priceGap * 100).toFixed(1)}% away from the live price, quotes are indicative only</span>
+              )}
+            </div>
+
+            {plan && (
+              <div>
+                <div className="flex items-center gap-2 mb-2 font-semibold">
+                  <Sparkles className="w-4 h-4 text-pink-500" />
+                  Suggested {plan.signal === "CALL" ? "calls" : "puts"} for a move to ${plan.tp.toFixed(2)}
+                  {plan.targetDate && <span className="font-normal text-neutral-400">by {plan.targetDate.toLocaleString()}</span>}
+                </div>
+                {!suggestions.length ? (
+                  <p className="text-neutral-400">No contract in the next expiries pays more than its ask at the target.</p>
+                ) : (
+                  <div className="grid md:grid-cols-3 gap-3">
+                    {suggestions.map((s) => (
+                      <button
+                        key={s.contract.contract}
+                        type="button"
+                        onClick={() => togglePick(s.contract)}
+                        className={`rounded-md border p-3 text-left ${picked?.contract === s.contract.contract
+                          ? "border-purple-500 bg-purple-950/40"
+                          : "border-neutral-700 hover:bg-neutral-800"}`}
+                      >
+                        <div className="font-mono text-xs text-neutral-400">{s.contract.contract}</div>
+                        <div className="font-semibold">{s.contract.expiry} ${s.contract.strike} {s.contract.type.toUpperCase()}</div>
+                        <div className="text-xs mt-1">
+                          Ask ${s.contract.ask.toFixed(2)} · Δ {s.contract.delta.toFixed(2)} · IV {(s.contract.iv * 100).toFixed(1)}%
+                        </div>
+                        <div className="text-xs text-emerald-400">
+                          ${s.valueAtTarget.toFixed(2)} intrinsic at TP · {(s.returnAtTarget * 100).toFixed(0)}% on premium
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow className="border-neutral-700 hover:bg-transparent">
+                  <TableHead colSpan={4} className="text-center text-emerald-400">Calls</TableHead>
+                  <TableHead />
+                  <TableHead colSpan={4} className="text-center text-rose-400">Puts</TableHead>
+                </TableRow>
+                <TableRow className="border-neutral-700 hover:bg-transparent">
+                  {["Bid", "Ask", "IV", "Δ"].map((h) => <TableHead key={`c-${h}`} className="text-right">{h}</TableHead>)}
+                  <TableHead className="text-center">Strike</TableHead>
+                  {["Bid", "Ask", "IV", "Δ"].map((h) => <TableHead key={`p-${h}`} className="text-right">{h}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ strike, call, put }) => (
+                  <TableRow key={strike} className="border-neutral-800 hover:bg-neutral-800/60">
+                    <Quote c={call} picked={!!call && picked?.contract === call.contract} onPick={() => togglePick(call)} />
+                    <TableCell className="text-center font-mono font-semibold">{strike}</TableCell>
+                    <Quote c={put} picked={!!put && picked?.contract === put.contract} onPick={() => togglePick(put)} />
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {picked && (
+              <div className="rounded-md border border-purple-500 bg-purple-950/30 p-3 flex flex-wrap gap-4">
+                <span className="font-semibold">Picked {picked.contract}</span>
+                <span>Mid <span className="font-mono">${midPrice(picked).toFixed(2)}</span></span>
+                <span>Δ <span className="font-mono">{picked.delta.toFixed(2)}</span></span>
+                <span className="text-neutral-400">Premium and delta feed the position sizer.</span>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
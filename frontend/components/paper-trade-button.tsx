@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Wallet } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "@/hooks/use-toast"
+import { usePaperTrades } from "@/hooks/use-paper-trades"
+import type { PredictResponse } from "@/lib/api"
+import { signedUsd } from "@/lib/format"
+import {
+  loadPaperQuantity,
+  openPaperTrade,
+  paperFillError,
+  paperPnl,
+  savePaperQuantity,
+} from "@/lib/paper-trading"
+
+interface PaperTradeButtonProps {
+  symbol: string
+  data: PredictResponse
+}
+
+export function PaperTradeButton({ symbol, data }: PaperTradeButtonProps) {
+  const trades = usePaperTrades()
+  const [quantity, setQuantity] = useState(100)
+
+  useEffect(() => {
+    setQuantity(loadPaperQuantity())
+  }, [])
+
+  const open = trades.filter((t) => t.status === "open" && t.symbol === symbol.toUpperCase())
+  const unrealized = open.reduce((sum, t) => sum + paperPnl(t), 0)
+
+  const accept = () => {
+    savePaperQuantity(quantity)
+    const error = paperFillError(data, quantity)
+    const trade = error ? null : openPaperTrade(symbol, data, quantity)
+    if (!trade) {
+      toast({ variant: "destructive", title: "Could not open paper trade", description: error ?? "The response has no latest price to fill at." })
+      return
+    }
+    toast({
+      title: `Paper ${trade.side === "CALL" ? "long" : "short"} ${trade.quantity} ${trade.symbol}`,
+      description: `Filled at $${trade.entry.toFixed(2)} · SL $${trade.sl.toFixed(2)} · TP $${trade.tp.toFixed(2)}`,
+    })
+  }
+
+  return (
+    <div className="mt-4 flex items-center gap-3 flex-wrap text-sm">
+      <Input
+        type="number"
+        min={1}
+        step="1"
+        value={quantity}
+        onChange={(e) => setQuantity(Math.max(Math.floor(Number(e.target.value) || 0), 0))}
+        className="h-8 w-24 bg-neutral-800 border-neutral-600 text-white font-mono"
+        aria-label="Paper quantity"
+      />
+      <Button size="sm" className="bg-purple-600 hover:bg-purple-700" onClick={accept} disabled={quantity <= 0}>
+        <Wallet className="w-3 h-3 mr-2" />
+        Paper trade at market
+      </Button>
+      {open.length > 0 && (
+        <Link href="/paper" className="text-neutral-400 hover:text-white">
+          {open.length} open · <span className={unrealized >= 0 ? "text-emerald-400" : "text-rose-400"}>{signedUsd(unrealized)}</span> unrealized
+        </Link>
+      )}
+    </div>
+  )
+}
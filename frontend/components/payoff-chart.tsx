@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Plot from 'react-plotly.js'
+import { Sigma } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { NumberField } from "@/components/ui/number-field"
+import { blackScholes, positionPnl, priceGrid, type Position } from "@/lib/black-scholes"
+import { signedUsd } from "@/lib/format"
+import { midPrice, type OptionContract } from "@/lib/options-chain"
+import type { SizingLevels } from "@/lib/position-sizing"
+import { readStored, writeStored } from "@/lib/storage"
+
+const RATE_KEY = "murli.riskFreeRate"
+const DAY_MS = 86_400_000
+const MULTIPLIER = 100
+const DEFAULT_IV_PCT = 25
+const DEFAULT_DAYS = 7
+const DEFAULT_RATE_PCT = 4.5
+// Padding around the sl/tp/strike span on the price axis
+const RANGE_PAD = 0.03
+const CURVE_COLORS = ["#a3a3a3", "#c084fc", "#f472b6", "#facc15"]
+
+// Options expire at the 16:00 ET close; 20:00 UTC ignores DST, which is close enough for a payoff sketch
+function daysUntil(expiry: string, now = new Date()) {
+  return Math.max((new Date(`${expiry}T20:00:00Z`).getTime() - now.getTime()) / DAY_MS, 0)
+}
+
+interface PayoffChartProps {
+  levels: SizingLevels
+  spot: number | null
+  contract: OptionContract | null
+  // When the move to tp is projected (from estimated_index_offset)
+  targetDate: Date | null
+}
+
+export function PayoffChart({ levels, spot, contract, targetDate }: PayoffChartProps) {
+  const [strike, setStrike] = useState(levels.strike)
+  const [ivPct, setIvPct] = useState(DEFAULT_IV_PCT)
+  const [days, setDays] = useState(DEFAULT_DAYS)
+  const [ratePct, setRatePct] = useState(DEFAULT_RATE_PCT)
+
+  useEffect(() => {
+    setRatePct(readStored(RATE_KEY, DEFAULT_RATE_PCT))
+  }, [])
+
+  // A picked contract sets the strike, IV and expiry; otherwise fall back to the consensus strike
+  useEffect(() => {
+    if (contract) {
+      setStrike(contract.strike)
+      setIvPct(Number((contract.iv * 100).toFixed(1)))
+      setDays(Number(daysUntil(contract.expiry).toFixed(1)))
+    } else {
+      setStrike(levels.strike)
+    }
+  }, [contract, levels.strike])
+
+  const changeRate = (v: number) => {
+    setRatePct(v)
+    writeStored(RATE_KEY, v)
+  }
+
+  const type = levels.signal === "CALL" ? "call" : "put"
+  const underlying = spot ?? levels.entry
+  const iv = ivPct / 100
+  const rate = ratePct / 100
+
+  const greeks = blackScholes({ type, spot: underlying, strike, years: days / 365, rate, iv })
+  const premium = contract ? midPrice(contract) : greeks.price
+  const position = useMemo<Position>(
+    () => ({ type, strike, premium, daysToExpiry: days, rate, iv, multiplier: MULTIPLIER }),
+    [type, strike, premium, days, rate, iv]
+  )
+
+  const targetDays = targetDate ? Math.max((targetDate.getTime() - Date.now()) / DAY_MS, 0) : null
+  const targetInLife = targetDays != null && targetDays < days
+
+  const verdict = targetInLife
+    ? {
+        atTp: positionPnl(position, levels.tp, targetDays),
+        decay: positionPnl(position, underlying, targetDays),
+      }
+    : null
+
+  const { traces, layout } = useMemo(() => {
+    const lo = Math.min(levels.sl, levels.tp, levels.entry, strike, underlying) * (1 - RANGE_PAD)
+    const hi = Math.max(levels.sl, levels.tp, levels.entry, strike, underlying) * (1 + RANGE_PAD)
+    const xs = priceGrid(lo, hi)
+
+    const horizons = [{ label: "Today", elapsed: 0 }]
+    if (targetInLife && targetDays! > 0) horizons.push({ label: `Projected TP time (+${targetDays!.toFixed(1)}d)`, elapsed: targetDays! })
+    if (days / 2 > 0 && !horizons.some((h) => Math.abs(h.elapsed - days / 2) < 0.25)) {
+      horizons.push({ label: `Halfway (+${(days / 2).toFixed(1)}d)`, elapsed: days / 2 })
+    }
+    horizons.sort((a, b) => a.elapsed - b.elapsed)
+    horizons.push({ label: "Expiry", elapsed: days })
+
+    const traces = horizons.map((h, i) => ({
+      type: "scatter",
+      mode: "lines",
+      name: h.label,
+      x: xs,
+      y: xs.map((s) => positionPnl(position, s, h.elapsed)),
+      line: { color: h.label === "Expiry" ? CURVE_COLORS[3] : CURVE_COLORS[i % 3], width: h.label === "Expiry" ? 2.5 : 1.5 },
+      hovertemplate: "$%{x:.2f}: %{y:$,.0f}<extra>" + h.label + "</extra>",
+    }))
+
+    const marker = (x: number, color: string, label: string) => ({
+      shape: { type: "line", xref: "x", yref: "paper", x0: x, x1: x, y0: 0, y1: 1, line: { color, width: 1, dash: "dash" } },
+      annotation: { x, xref: "x", y: 1, yref: "paper", text: label, showarrow: false, yanchor: "bottom", font: { color, size: 10 } },
+    })
+    const markers = [
+      marker(levels.sl, "#f43f5e", "SL"),
+      marker(levels.entry, "#a3a3a3", "Entry"),
+      marker(levels.tp, "#10b981", "TP"),
+    ]
+
+    const layout: any = {
+      autosize: true,
+      height: 360,
+      margin: { t: 30, r: 20, l: 60, b: 50 },
+      paper_bgcolor: "#18181b",
+      plot_bgcolor: "#18181b",
+      font: { color: "#fff", size: 11 },
+      xaxis: { title: "Underlying", showgrid: true, gridcolor: "#333" },
+      yaxis: { title: "P/L per contract ($)", showgrid: true, gridcolor: "#333", zeroline: true, zerolinecolor: "#737373" },
+      legend: { orientation: "h", y: -0.22, font: { size: 10 } },
+      shapes: markers.map((m) => m.shape),
+      annotations: markers.map((m) => m.annotation),
+    }
+    return { traces, layout }
+  }, [levels, strike, underlying, days, targetDays, targetInLife, position])
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-700">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Sigma className="w-4 h-4 text-pink-500" />
+          <span>Payoff — {contract ? contract.contract : `$${strike} ${type.toUpperCase()}`}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <NumberField label="Strike" value={strike} step="1" onChange={setStrike} />
+          <NumberField label="IV (%)" value={ivPct} step="0.5" onChange={setIvPct} />
+          <NumberField label="Days to expiry" value={days} step="1" onChange={setDays} />
+          <NumberField label="Rate (%)" value={ratePct} step="0.25" onChange={changeRate} />
+        </div>
+
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+          {[
+            ["Premium", `$${premium.toFixed(2)}`],
+            ["Delta", greeks.delta.toFixed(3)],
+            ["Gamma", greeks.gamma.toFixed(4)],
+            ["Theta / day", `$${(greeks.theta * MULTIPLIER).toFixed(2)}`],
+            ["Vega / vol pt", `$${(greeks.vega * MULTIPLIER).toFixed(2)}`],
+            ["Rho / rate pt", `$${(greeks.rho * MULTIPLIER).toFixed(2)}`],
+          ].map(([label, value]) => (
+            <div key={label}>
+              <div className="text-neutral-400 mb-1">{label}</div>
+              <div className="font-mono font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {verdict ? (
+          <div className={`rounded-md border p-3 ${verdict.atTp > 0 ? "border-emerald-600 bg-emerald-950/30" : "border-rose-600 bg-rose-950/30"}`}>
+            Reaching TP ${levels.tp.toFixed(2)} by {targetDate!.toLocaleString()} is worth{" "}
+            <span className="font-mono font-semibold">{signedUsd(verdict.atTp, 0)}</span> per contract; standing still until then costs{" "}
+            <span className="font-mono font-semibold">{signedUsd(verdict.decay, 0)}</span> in decay.
+            {verdict.atTp > 0 ? " The projected move beats theta." : " The projected move does not beat theta at this strike and expiry."}
+          </div>
+        ) : (
+          <p className="text-neutral-400">
+            {targetDate
+              ? "The projected TP time falls after expiry — pick a later expiry to judge the move against theta."
+              : "No projected TP time from the intervals; only the today/expiry curves are meaningful."}
+          </p>
+        )}
+
+        <div style={{ width: "100%", height: 360 }}>
+          <Plot
+            data={traces}
+            layout={layout}
+            useResizeHandler={true}
+            style={{ width: "100%", height: "100%" }}
+            config={{ displayModeBar: false }}
+          />
+        </div>
+        <p className="text-xs text-neutral-500">
+          Black-Scholes with IV and rate held constant; {contract ? "premium is the picked contract's mid" : "premium is the model price at the current underlying"}.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown, Triangle } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Pivot } from "@/lib/api"
+import { pivotElapsed } from "@/lib/pivots"
+
+type SortKey = "time" | "type" | "height" | "duration_bars" | "pct_move" | "confidence"
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "time", label: "Time" },
+  { key: "type", label: "Type" },
+  { key: "height", label: "Height", numeric: true },
+  { key: "duration_bars", label: "Bars", numeric: true },
+  { key: "pct_move", label: "Move %", numeric: true },
+  { key: "confidence", label: "Conf.", numeric: true },
+]
+
+function compare(a: string | number | null, b: string | number | null) {
+  if (a == null) return b == null ? 0 : 1
+  if (b == null) return -1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+const shortTime = (ts: string) => ts.replace("T", " ").slice(5, 16)
+const typeColor = (p: Pivot) => (p.type === "Peak" ? "text-emerald-400" : "text-rose-400")
+const signed = (v: number | null, digits: number) => (v == null ? "—" : `${v >= 0 ? "+" : ""}${v.toFixed(digits)}`)
+
+interface PivotInspectorProps {
+  pivots: Pivot[]
+  // Pivot the detail card describes: the hovered one, else the selected one
+  active: Pivot | null
+  selectedTime: string | null
+  onSelect: (time: string | null) => void
+}
+
+export function PivotInspector({ pivots, active, selectedTime, onSelect }: PivotInspectorProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("time")
+  const [sortDesc, setSortDesc] = useState(true)
+  const selectedRowRef = useRef<HTMLTableRowElement>(null)
+  const hasConfidence = pivots.some((p) => p.confidence != null)
+
+  const sorted = useMemo(
+    () => [...pivots].sort((a, b) => compare(a[sortKey], b[sortKey]) * (sortDesc ? -1 : 1)),
+    [pivots, sortKey, sortDesc]
+  )
+
+  useEffect(() => {
+    selectedRowRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+  }, [selectedTime])
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(!sortDesc)
+    else {
+      setSortKey(key)
+      setSortDesc(key !== "type")
+    }
+  }
+
+  if (!pivots.length) return <p className="text-neutral-400 text-sm">No pivots in this window.</p>
+
+  return (
+    <div className="space-y-3 text-sm">
+      {active ? (
+        <div className="rounded-md border border-neutral-700 bg-neutral-950/60 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className={`font-semibold flex items-center gap-1 ${typeColor(active)}`}>
+              <Triangle className={`w-3 h-3 fill-current ${active.type === "Trough" ? "rotate-180" : ""}`} />
+              {active.type}
+            </span>
+            <span className="font-mono text-xs text-neutral-400">{shortTime(active.time)}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {[
+              ["Pivot value", active.value != null ? `$${active.value.toFixed(2)}` : "—"],
+              ["Wave height", active.height != null ? `$${active.height.toFixed(2)}` : "—"],
+              ["Duration", active.duration_bars != null ? `${active.duration_bars} bars` : "—"],
+              ["Move", active.pct_move != null ? `${signed(active.pct_move, 2)}%` : "—"],
+              ["Since previous", pivotElapsed(active) ?? "—"],
+              ["Confidence", active.confidence != null ? `${(active.confidence * 100).toFixed(0)}%` : "—"],
+            ].map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-2">
+                <span className="text-neutral-400">{label}</span>
+                <span className="font-mono">{value}</span>
+              </div>
+            ))}
+          </div>
+          {active.confidence != null && (
+            <div className="h-1.5 rounded bg-neutral-800 overflow-hidden" title="Pivot confidence">
+              <div className="h-full bg-purple-500" style={{ width: `${Math.min(active.confidence, 1) * 100}%` }} />
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-neutral-400">Hover or click a peak/trough marker, or pick a row below.</p>
+      )}
+      {!hasConfidence && (
+        <p className="text-xs text-yellow-300">
+          The backend did not send wave metrics; values are rebuilt from closes and have no confidence.
+        </p>
+      )}
+
+      <div className="max-h-72 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-neutral-700 hover:bg-transparent">
+              {COLUMNS.map(({ key, label, numeric }) => (
+                <TableHead key={key} className={`px-2 ${numeric ? "text-right" : ""}`}>
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 text-neutral-400 hover:text-white"
+                    onClick={() => toggleSort(key)}
+                  >
+                    {label}
+                    {sortKey !== key ? <ArrowUpDown className="w-3 h-3" />
+                      : sortDesc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((p) => (
+              <TableRow
+                key={p.time}
+                ref={p.time === selectedTime ? selectedRowRef : undefined}
+                data-state={p.time === selectedTime ? "selected" : undefined}
+                onClick={() => onSelect(p.time === selectedTime ? null : p.time)}
+                className="border-neutral-800 hover:bg-neutral-800/60 data-[state=selected]:bg-purple-900/40 cursor-pointer"
+              >
+                <TableCell className="px-2 font-mono text-xs whitespace-nowrap">{shortTime(p.time)}</TableCell>
+                <TableCell className={`px-2 ${typeColor(p)}`}>{p.type}</TableCell>
+                <TableCell className="px-2 text-right font-mono">{p.height != null ? p.height.toFixed(2) : "—"}</TableCell>
+                <TableCell className="px-2 text-right font-mono">{p.duration_bars ?? "—"}</TableCell>
+                <TableCell className={`px-2 text-right font-mono ${(p.pct_move ?? 0) >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+                  {signed(p.pct_move, 2)}
+                </TableCell>
+                <TableCell className="px-2 text-right font-mono">
+                  {p.confidence != null ? `${(p.confidence * 100).toFixed(0)}%` : "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Calculator } from "lucide-react"
+import { NumberField } from "@/components/ui/number-field"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { usd } from "@/lib/format"
+import {
+  DEFAULT_SIZING,
+  computePositionSize,
+  loadSizingInputs,
+  saveSizingInputs,
+  type SizingInputs,
+  type SizingLevels,
+} from "@/lib/position-sizing"
+
+interface PositionSizerProps {
+  levels: SizingLevels
+  // A contract picked in the options panel overrides premium and delta
+  contract?: { premium: number; delta: number } | null
+}
+
+export function PositionSizer({ levels, contract }: PositionSizerProps) {
+  const [inputs, setInputs] = useState<SizingInputs>(DEFAULT_SIZING)
+
+  useEffect(() => {
+    setInputs(loadSizingInputs())
+  }, [])
+
+  const patch = useCallback((changes: Partial<SizingInputs>) => {
+    setInputs((prev) => {
+      const next = { ...prev, ...changes }
+      saveSizingInputs(next)
+      return next
+    })
+  }, [])
+
+  useEffect(() => {
+    if (contract) patch({ instrument: "options", premium: contract.premium, delta: Math.abs(contract.delta) })
+  }, [contract, patch])
+
+  const result = computePositionSize(inputs, levels)
+  const isOptions = inputs.instrument === "options"
+  const unit = isOptions ? "contracts" : "shares"
+
+  return (
+    <div className="mt-4 rounded-lg border border-neutral-700 bg-neutral-900/60 p-4 space-y-4 text-sm">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-2 font-semibold">
+          <Calculator className="w-4 h-4 text-pink-500" />
+          Position Size
+        </div>
+        <ToggleGroup type="single" value={inputs.instrument} onValueChange={(v) => v && patch({ instrument: v as SizingInputs["instrument"] })}>
+          <ToggleGroupItem value="shares" size="sm" className="data-[state=on]:bg-rose-500">Shares</ToggleGroupItem>
+          <ToggleGroupItem value="options" size="sm" className="data-[state=on]:bg-rose-500">Options</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <NumberField label="Account ($)" value={inputs.accountSize} step="100" onChange={(accountSize) => patch({ accountSize })} />
+        <NumberField label="Max risk (%)" value={inputs.riskPct} step="0.1" onChange={(riskPct) => patch({ riskPct })} />
+        <NumberField label={`Commission ($ per ${isOptions ? "contract" : "share"}, each side)`} value={inputs.commission} step="0.01" onChange={(commission) => patch({ commission })} />
+        {isOptions && (
+          <>
+            <NumberField label="Premium ($ per share)" value={inputs.premium} step="0.05" onChange={(premium) => patch({ premium })} />
+            <NumberField label="Delta" value={inputs.delta} step="0.05" onChange={(delta) => patch({ delta: Math.min(delta, 1) })} />
+            <NumberField label="Multiplier" value={inputs.multiplier} step="1" onChange={(multiplier) => patch({ multiplier })} />
+          </>
+        )}
+      </div>
+
+      {!result ? (
+        <p className="text-neutral-400">Entry and stop are equal — nothing to size against.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div>
+            <div className="text-neutral-400 mb-1">Size</div>
+            <div className="text-xl font-mono font-semibold">{result.quantity} <span className="text-sm text-neutral-400">{unit}</span></div>
+          </div>
+          <div>
+            <div className="text-neutral-400 mb-1">Dollar Risk</div>
+            <div className="text-xl font-mono font-semibold text-rose-400">{usd(result.dollarRisk)}</div>
+            <div className="text-xs text-neutral-500">budget {usd(result.riskBudget)}</div>
+          </div>
+          <div>
+            <div className="text-neutral-400 mb-1">Dollar Reward</div>
+            <div className="text-xl font-mono font-semibold text-emerald-400">{usd(result.dollarReward)}</div>
+          </div>
+          <div>
+            <div className="text-neutral-400 mb-1">{isOptions ? "Premium Outlay" : "Notional"}</div>
+            <div className="text-xl font-mono font-semibold">{usd(result.capital)}</div>
+          </div>
+          <div>
+            <div className="text-neutral-400 mb-1">Breakeven{isOptions ? " (expiry)" : ""}</div>
+            <div className="text-xl font-mono font-semibold">${result.breakeven.toFixed(2)}</div>
+          </div>
+        </div>
+      )}
+      {result?.cappedByCapital && (
+        <p className="text-xs text-yellow-300">
+          Size is capped by the account: {result.quantity} {unit} cost {usd(result.capital)}, so only {usd(result.dollarRisk)} of the {usd(result.riskBudget)} risk budget is used.
+        </p>
+      )}
+      {isOptions && (
+        <p className="text-xs text-neutral-500">
+          Option P/L is approximated as delta × the underlying move to SL/TP, with the loss capped at the premium.
+        </p>
+      )}
+    </div>
+  )
+}
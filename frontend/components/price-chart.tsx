@@ -0,0 +1,106 @@
+"use client"
+
+import Plot from 'react-plotly.js'
+import type { IntervalResult } from "@/lib/api"
+import {
+  assignPanelAxes,
+  buildIndicatorTraces,
+  buildPriceLayout,
+  buildPriceTraces,
+  PIVOT_TRACE,
+  type ChartMode,
+  type IndicatorId,
+} from "@/lib/chart-traces"
+
+const PANEL_HEIGHT_PX = 110
+
+// Shared x-axis state for charts shown side by side. Ranges and hover times
+// are timestamps, so charts on different intervals line up by time, not bar index.
+export interface ChartSync {
+  xRange: [string, string] | null
+  onXRangeChange: (range: [string, string] | null) => void
+  hoverTime: string | null
+  onHoverTime: (time: string | null) => void
+}
+
+function relayoutRange(e: any): [string, string] | null | undefined {
+  if (e["xaxis.autorange"]) return null
+  if (e["xaxis.range[0]"] != null && e["xaxis.range[1]"] != null) return [e["xaxis.range[0]"], e["xaxis.range[1]"]]
+  if (Array.isArray(e["xaxis.range"])) return [e["xaxis.range"][0], e["xaxis.range"][1]]
+  return undefined
+}
+
+// Bar index of the peak/trough marker an event landed on, if any
+function pivotIndex(e: any): number | null {
+  const point = e.points?.find((p: any) => p.data?.meta === PIVOT_TRACE)
+  return typeof point?.customdata === "number" ? point.customdata : null
+}
+
+interface PriceChartProps {
+  data: Partial<IntervalResult>
+  interval: string
+  mode: ChartMode
+  indicators?: IndicatorId[]
+  extraTraces?: any[]
+  height?: number
+  sync?: ChartSync
+  onPivotHover?: (index: number | null) => void
+  onPivotClick?: (index: number) => void
+}
+
+export function PriceChart({
+  data,
+  interval,
+  mode,
+  indicators = [],
+  extraTraces = [],
+  height = 440,
+  sync,
+  onPivotHover,
+  onPivotClick,
+}: PriceChartProps) {
+  const { overlays, panels } = buildIndicatorTraces(data.ohlcv || [], indicators)
+  const totalHeight = height + panels.length * PANEL_HEIGHT_PX
+  const layout = buildPriceLayout(interval, totalHeight, panels)
+
+  if (sync) {
+    layout.uirevision = "sync"
+    layout.xaxis = sync.xRange
+      ? { ...layout.xaxis, range: sync.xRange, autorange: false }
+      : { ...layout.xaxis, autorange: true }
+    if (sync.hoverTime) {
+      layout.shapes = [{
+        type: "line", xref: "x", yref: "paper", x0: sync.hoverTime, x1: sync.hoverTime, y0: 0, y1: 1,
+        line: { color: "#a3a3a3", width: 1, dash: "dot" },
+      }]
+    }
+  }
+
+  return (
+    <div style={{ width: "100%", height: totalHeight }}>
+      <Plot
+        data={[...buildPriceTraces(data, mode), ...overlays, ...assignPanelAxes(panels), ...extraTraces]}
+        layout={layout}
+        useResizeHandler={true}
+        style={{ width: "100%", height: "100%" }}
+        config={{ displayModeBar: false }}
+        onRelayout={sync && ((e: any) => {
+          const range = relayoutRange(e)
+          if (range !== undefined) sync.onXRangeChange(range)
+        })}
+        onHover={(e: any) => {
+          sync?.onHoverTime(e.points?.[0]?.x ?? null)
+          onPivotHover?.(pivotIndex(e))
+        }}
+        onUnhover={() => {
+          sync?.onHoverTime(null)
+          onPivotHover?.(null)
+        }}
+        onClick={onPivotClick && ((e: any) => {
+          const index = pivotIndex(e)
+          if (index != null) onPivotClick(index)
+        })}
+      />
+    </div>
+  )
+}
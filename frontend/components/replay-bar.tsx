@@ -0,0 +1,56 @@
+"use client"
+
+import { Pause, Play, SkipBack, SkipForward, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { REPLAY_SPEEDS, type ReplayControls, type ReplaySpeed } from "@/hooks/use-replay"
+
+interface ReplayBarProps {
+  replay: ReplayControls
+  onExit: () => void
+}
+
+export function ReplayBar({ replay, onExit }: ReplayBarProps) {
+  const { session, index, count, playing, speed, error } = replay
+  if (!session) return null
+  const at = session.times[index]
+
+  return (
+    <div className="sticky top-0 z-20 rounded-md border border-purple-500 bg-purple-950/80 backdrop-blur px-4 py-3 space-y-2 text-sm">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="font-semibold">Replay · {session.symbol}</span>
+        <span className="font-mono text-neutral-300">{at ? new Date(at).toLocaleString() : "—"}</span>
+        <span className="text-neutral-400">frame {index + 1} / {count}</span>
+        <div className="flex items-center gap-1 ml-auto">
+          <Button size="icon" variant="outline" className="h-8 w-8 bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={() => replay.step(-1)} disabled={index === 0} title="Previous frame">
+            <SkipBack className="w-3 h-3" />
+          </Button>
+          <Button size="icon" className="h-8 w-8 bg-purple-600 hover:bg-purple-700" onClick={() => replay.setPlaying(!playing)} disabled={index >= count - 1 && !playing} title={playing ? "Pause" : "Play"}>
+            {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </Button>
+          <Button size="icon" variant="outline" className="h-8 w-8 bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={() => replay.step(1)} disabled={index >= count - 1} title="Next frame">
+            <SkipForward className="w-3 h-3" />
+          </Button>
+        </div>
+        <ToggleGroup type="single" value={String(speed)} onValueChange={(v) => v && replay.setSpeed(Number(v) as ReplaySpeed)}>
+          {REPLAY_SPEEDS.map((s) => (
+            <ToggleGroupItem key={s} value={String(s)} size="sm" className="data-[state=on]:bg-rose-500">{s}x</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={onExit}>
+          <X className="w-3 h-3 mr-2" />
+          Back to live
+        </Button>
+      </div>
+      <Slider
+        min={0}
+        max={Math.max(count - 1, 0)}
+        step={1}
+        value={[index]}
+        onValueChange={([i]) => replay.seek(i)}
+      />
+      {error && <p className="text-rose-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+import { Disc, Download, Play, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { downloadFile } from "@/lib/download"
+import {
+  deleteSession,
+  exportSession,
+  importSession,
+  listSessions,
+  type RecordingSession,
+} from "@/lib/session-recorder"
+
+interface SessionRecorderProps {
+  recording: RecordingSession | null
+  onRecordingChange: (on: boolean) => void
+  onReplay: (session: RecordingSession) => void
+}
+
+const formatSpan = (s: RecordingSession) => {
+  const end = s.times[s.times.length - 1]
+  const start = new Date(s.startedAt).toLocaleString()
+  return end ? `${start} – ${new Date(end).toLocaleTimeString()}` : start
+}
+
+export function SessionRecorder({ recording, onRecordingChange, onReplay }: SessionRecorderProps) {
+  const [open, setOpen] = useState(false)
+  const [sessions, setSessions] = useState<RecordingSession[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  const load = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)))
+  }, [])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+    load()
+  }
+
+  const download = (s: RecordingSession) => run(async () => {
+    downloadFile(`murli-session-${s.symbol}-${s.startedAt.slice(0, 10)}.json`, await exportSession(s.id), "application/json")
+  })
+
+  const upload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (file) run(async () => importSession(await file.text()))
+  }
+
+  const replay = (s: RecordingSession) => {
+    setOpen(false)
+    onReplay(s)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => {
+      setOpen(next)
+      if (next) load()
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" title="Record and replay sessions">
+          <Disc className={`w-4 h-4 ${recording ? "text-rose-500 animate-pulse" : ""}`} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-900 border-neutral-700 text-white max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Disc className="w-4 h-4 text-pink-500" />
+            Sessions
+          </DialogTitle>
+          <DialogDescription>
+            While recording, every prediction the dashboard shows is saved in this browser. Replay feeds them back through the same UI.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between flex-wrap gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <Switch checked={!!recording} onCheckedChange={onRecordingChange} />
+            {recording ? (
+              <span>Recording {recording.symbol} · {recording.times.length} frames</span>
+            ) : (
+              <span className="text-neutral-300">Record this session</span>
+            )}
+          </label>
+          <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={() => fileRef.current?.click()}>
+            <Upload className="w-3 h-3 mr-2" />
+            Import
+          </Button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={upload} />
+        </div>
+
+        {error && <p className="text-sm text-rose-400">{error}</p>}
+
+        {sessions.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-neutral-700 hover:bg-transparent">
+                <TableHead>Symbol</TableHead>
+                <TableHead>Recorded</TableHead>
+                <TableHead className="text-right">Frames</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((s) => (
+                <TableRow key={s.id} className="border-neutral-800 hover:bg-neutral-800/60">
+                  <TableCell className="font-semibold">{s.symbol}</TableCell>
+                  <TableCell className="font-mono text-xs">{formatSpan(s)}</TableCell>
+                  <TableCell className="text-right font-mono">{s.times.length}</TableCell>
+                  <TableCell className="text-right space-x-1 whitespace-nowrap">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" title="Replay" onClick={() => replay(s)} disabled={!s.times.length || s.id === recording?.id}>
+                      <Play className="w-3 h-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" title="Download" onClick={() => download(s)}>
+                      <Download className="w-3 h-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7 text-rose-400" title="Delete" onClick={() => run(() => deleteSession(s.id))} disabled={s.id === recording?.id}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-neutral-400 text-sm">No recorded sessions yet.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { Clock4 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { AVAILABLE_INTERVALS, DEFAULT_PERIODS, type TimeframeConfig } from "@/lib/timeframes"
+
+const PERIOD_PATTERN = /^\d+(d|mo|y)$/
+
+interface TimeframeManagerProps {
+  timeframes: TimeframeConfig[]
+  onSave: (next: TimeframeConfig[]) => void
+}
+
+export function TimeframeManager({ timeframes, onSave }: TimeframeManagerProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<Record<string, TimeframeConfig & { enabled: boolean }>>({})
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(Object.fromEntries(AVAILABLE_INTERVALS.map((ivl) => {
+        const existing = timeframes.find((t) => t.interval === ivl)
+        return [ivl, existing
+          ? { ...existing, enabled: true }
+          : { interval: ivl, period: DEFAULT_PERIODS[ivl], inConsensus: true, enabled: false }]
+      })))
+    }
+    setOpen(next)
+  }
+
+  const patch = (ivl: string, changes: Partial<TimeframeConfig & { enabled: boolean }>) =>
+    setDraft((prev) => ({ ...prev, [ivl]: { ...prev[ivl], ...changes } }))
+
+  const rows = Object.values(draft)
+  const enabled = rows.filter((r) => r.enabled)
+  const consensusCount = enabled.filter((r) => r.inConsensus).length
+  const invalidPeriod = enabled.some((r) => !PERIOD_PATTERN.test(r.period))
+
+  const save = () => {
+    onSave(enabled.map(({ interval, period, inConsensus }) => ({ interval, period, inConsensus })))
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+          <Clock4 className="w-3 h-3 mr-2" />
+          Timeframes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-900 border-neutral-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Timeframes</DialogTitle>
+          <DialogDescription>
+            Pick the intervals to fetch, how much history each one loads, and which of them vote in the consensus.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[auto_1fr_1fr_auto] gap-x-4 gap-y-2 items-center text-sm">
+          <span className="text-neutral-400 text-xs">Show</span>
+          <span className="text-neutral-400 text-xs">Interval</span>
+          <span className="text-neutral-400 text-xs">Lookback</span>
+          <span className="text-neutral-400 text-xs">Consensus</span>
+          {rows.map((r) => (
+            <div key={r.interval} className="contents">
+              <Switch checked={r.enabled} onCheckedChange={(on) => patch(r.interval, { enabled: on })} />
+              <span className={`font-mono ${r.enabled ? "" : "text-neutral-500"}`}>{r.interval}</span>
+              <Input
+                value={r.period}
+                onChange={(e) => patch(r.interval, { period: e.target.value.trim() })}
+                disabled={!r.enabled}
+                className={`h-8 bg-neutral-800 border-neutral-600 text-white font-mono ${r.enabled && !PERIOD_PATTERN.test(r.period) ? "border-rose-500" : ""}`}
+              />
+              <Checkbox
+                checked={r.inConsensus}
+                onCheckedChange={(on) => patch(r.interval, { inConsensus: on === true })}
+                disabled={!r.enabled}
+                className="justify-self-center"
+              />
+            </div>
+          ))}
+        </div>
+
+        {consensusCount < 2 && enabled.length > 0 && (
+          <p className="text-xs text-yellow-300">
+            The backend needs at least 2 agreeing timeframes, so with {consensusCount} in consensus it will always return No Trade.
+          </p>
+        )}
+        {invalidPeriod && <p className="text-xs text-rose-400">Lookbacks look like 15d, 6mo or 1y.</p>}
+
+        <DialogFooter>
+          <Button className="bg-purple-600 hover:bg-purple-700" onClick={save} disabled={!enabled.length || invalidPeriod}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,25 @@
+import { Input } from "@/components/ui/input"
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  step?: string
+  onChange: (v: number) => void
+}
+
+// Labelled non-negative number input; blanks and negatives read as 0
+export function NumberField({ label, value, step = "any", onChange }: NumberFieldProps) {
+  return (
+    <label className="space-y-1">
+      <span className="text-neutral-400 text-xs">{label}</span>
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(Number(e.target.value) || 0, 0))}
+        className="h-8 bg-neutral-800 border-neutral-600 text-white font-mono"
+      />
+    </label>
+  )
+}
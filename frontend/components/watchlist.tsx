@@ -0,0 +1,202 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown, Eye, Loader2, Plus, RefreshCw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { WatchlistEntry } from "@/hooks/use-watchlist"
+import { rrColor } from "@/lib/format"
+
+type SortKey = "symbol" | "signal" | "agreeing" | "risk_reward" | "price"
+
+interface WatchlistRow {
+  symbol: string
+  entry: WatchlistEntry | undefined
+  signal: string | null
+  agreeing: number | null
+  agreeingLabel: string
+  riskReward: number | null
+  price: number | null
+}
+
+const SIGNAL_ORDER: Record<string, number> = { CALL: 0, PUT: 1, NO_TRADE: 2 }
+
+const SIGNAL_COLORS: Record<string, string> = {
+  CALL: "text-emerald-400",
+  PUT: "text-rose-400",
+  NO_TRADE: "text-yellow-300",
+}
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "signal", label: "Consensus" },
+  { key: "agreeing", label: "Agreeing", numeric: true },
+  { key: "risk_reward", label: "R/R", numeric: true },
+  { key: "price", label: "Price", numeric: true },
+]
+
+function toRow(symbol: string, entry: WatchlistEntry | undefined): WatchlistRow {
+  const consensus = entry?.data?.consensus
+  const firstInterval = entry?.data ? Object.values(entry.data.intervals)[0] : undefined
+  const [agree, total] = consensus?.is_trade ? consensus.agreeing.split("/").map(Number) : [NaN, NaN]
+  return {
+    symbol,
+    entry,
+    signal: consensus?.signal ?? null,
+    agreeing: isNaN(agree) ? null : agree / (total || 1),
+    agreeingLabel: consensus?.is_trade ? consensus.agreeing : "—",
+    riskReward: consensus?.is_trade ? consensus.risk_reward : null,
+    price: firstInterval?.latest_price ?? null,
+  }
+}
+
+function sortValue(row: WatchlistRow, key: SortKey) {
+  switch (key) {
+    case "symbol": return row.symbol
+    case "signal": return row.signal != null ? SIGNAL_ORDER[row.signal] : null
+    case "agreeing": return row.agreeing
+    case "risk_reward": return row.riskReward
+    case "price": return row.price
+  }
+}
+
+interface WatchlistProps {
+  symbols: string[]
+  entries: Record<string, WatchlistEntry>
+  activeSymbol: string
+  onSelect: (symbol: string) => void
+  onAdd: (symbol: string) => void
+  onRemove: (symbol: string) => void
+  onRefresh: () => void
+}
+
+export function Watchlist({ symbols, entries, activeSymbol, onSelect, onAdd, onRemove, onRefresh }: WatchlistProps) {
+  const [draft, setDraft] = useState("")
+  const [sortKey, setSortKey] = useState<SortKey>("symbol")
+  const [sortDesc, setSortDesc] = useState(false)
+
+  const rows = useMemo(() => {
+    const out = symbols.map((s) => toRow(s, entries[s]))
+    out.sort((a, b) => {
+      const va = sortValue(a, sortKey)
+      const vb = sortValue(b, sortKey)
+      if (va == null) return vb == null ? 0 : 1
+      if (vb == null) return -1
+      return (va < vb ? -1 : va > vb ? 1 : 0) * (sortDesc ? -1 : 1)
+    })
+    return out
+  }, [symbols, entries, sortKey, sortDesc])
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(!sortDesc)
+    else {
+      setSortKey(key)
+      setSortDesc(false)
+    }
+  }
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onAdd(draft)
+    setDraft("")
+  }
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-700">
+      <CardHeader>
+        <div className="flex items-center justify-between w-full flex-wrap gap-3">
+          <CardTitle className="flex items-center space-x-2">
+            <Eye className="w-4 h-4 text-pink-500" />
+            <span>Watchlist</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <form onSubmit={submit} className="flex items-center gap-2">
+              <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="bg-neutral-800 border-neutral-600 text-white w-24 h-8"
+                placeholder="Add…"
+              />
+              <Button type="submit" size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800">
+                <Plus className="w-3 h-3" />
+              </Button>
+            </form>
+            <Button size="sm" variant="outline" className="bg-neutral-900 border-neutral-600 hover:bg-neutral-800" onClick={onRefresh}>
+              <RefreshCw className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!symbols.length ? (
+          <p className="text-neutral-400 text-sm">Add a ticker to start tracking its consensus.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-neutral-700 hover:bg-transparent">
+                {COLUMNS.map(({ key, label, numeric }) => (
+                  <TableHead key={key} className={numeric ? "text-right" : undefined}>
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 text-neutral-400 hover:text-white"
+                      onClick={() => toggleSort(key)}
+                    >
+                      {label}
+                      {sortKey !== key ? <ArrowUpDown className="w-3 h-3" />
+                        : sortDesc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />}
+                    </button>
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Updated</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow
+                  key={row.symbol}
+                  data-state={row.symbol === activeSymbol.toUpperCase() ? "selected" : undefined}
+                  onClick={() => onSelect(row.symbol)}
+                  className="border-neutral-800 hover:bg-neutral-800/60 data-[state=selected]:bg-purple-900/40 cursor-pointer"
+                >
+                  <TableCell className="font-semibold">{row.symbol}</TableCell>
+                  <TableCell className={row.signal ? SIGNAL_COLORS[row.signal] : "text-neutral-400"}>
+                    {row.entry?.isLoading && !row.entry.data
+                      ? <Loader2 className="w-3 h-3 animate-spin" />
+                      : row.entry?.error && !row.entry.data
+                        ? <span className="text-rose-400 text-xs">{row.entry.error}</span>
+                        : row.signal?.replace("_", " ") ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{row.agreeingLabel}</TableCell>
+                  <TableCell className={`text-right font-mono ${rrColor(row.riskReward)}`}>
+                    {row.riskReward != null ? row.riskReward.toFixed(2) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{row.price != null ? `$${row.price.toFixed(2)}` : "—"}</TableCell>
+                  <TableCell className="text-right text-xs text-neutral-400">
+                    {row.entry?.isLoading && row.entry.data && <Loader2 className="inline w-3 h-3 mr-1 animate-spin" />}
+                    {row.entry?.updatedAt?.toLocaleTimeString() ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <button
+                      type="button"
+                      className="text-neutral-500 hover:text-rose-400"
+                      title={`Remove ${row.symbol}`}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onRemove(row.symbol)
+                      }}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,254 @@
+// Electron main process: hosts the Next.js dashboard in a window that keeps
+// refreshing while hidden, mirrors the consensus signal in the tray and can
+// supervise the FastAPI backend.
+//
+// Environment:
+//   MURLI_APP_URL        load this URL instead of starting `next start` (e.g. http://localhost:3000 with `next dev`)
+//   MURLI_APP_PORT       port for the bundled `next start` server (default 3939)
+//   MURLI_SPAWN_BACKEND  "1" to start and supervise `uvicorn api:app` from ../backend
+//   MURLI_BACKEND_PORT   port for the spawned backend (default 8000)
+//   MURLI_PYTHON         python executable for the backend (default python3, python on Windows)
+//
+// A backend started separately must allow the app's origin; api.py's default
+// MURLI_CORS_ORIGINS covers port 3939, so set it when MURLI_APP_PORT changes.
+// `npm run desktop:dist` packages the app with electron-builder (config under
+// "build" in package.json). The backend ships as source in the app's
+// resources; spawning it still needs a Python with backend/requirements.txt.
+
+const { app, BrowserWindow, Menu, Notification, Tray, ipcMain, nativeImage, shell } = require("electron")
+const { spawn } = require("node:child_process")
+const path = require("node:path")
+
+const FRONTEND_DIR = path.join(__dirname, "..")
+const BACKEND_DIR = app.isPackaged
+  ? path.join(process.resourcesPath, "backend")
+  : path.join(FRONTEND_DIR, "..", "backend")
+const APP_PORT = Number(process.env.MURLI_APP_PORT || 3939)
+const BACKEND_PORT = Number(process.env.MURLI_BACKEND_PORT || 8000)
+const SPAWN_BACKEND = process.env.MURLI_SPAWN_BACKEND === "1"
+const PYTHON = process.env.MURLI_PYTHON || (process.platform === "win32" ? "python" : "python3")
+
+const SIGNAL_COLORS = {
+  CALL: [16, 185, 129],
+  PUT: [244, 63, 94],
+  NO_TRADE: [253, 224, 71],
+  NONE: [115, 115, 115],
+}
+
+let mainWindow = null
+let tray = null
+let isQuitting = false
+let lastSignal = null
+let nextServer = null
+
+// ---------------------------------------------------------------------------
+// Child processes
+// ---------------------------------------------------------------------------
+
+// Restarts the child with capped exponential backoff until the app quits
+function supervise(name, start) {
+  const state = { name, child: null, status: "stopped", restarts: 0, timer: null }
+
+  const launch = () => {
+    state.timer = null
+    const child = start()
+    state.child = child
+    state.status = "running"
+    updateTray()
+    child.stdout?.on("data", (d) => process.stdout.write(`[${name}] ${d}`))
+    child.stderr?.on("data", (d) => process.stderr.write(`[${name}] ${d}`))
+    child.on("exit", (code) => {
+      state.child = null
+      if (isQuitting || state.status === "stopped") return
+      state.status = "crashed"
+      state.restarts += 1
+      const delay = Math.min(1000 * 2 ** state.restarts, 60000)
+      console.error(`[${name}] exited with code ${code}; restarting in ${delay} ms`)
+      state.timer = setTimeout(launch, delay)
+      updateTray()
+    })
+    child.on("error", (e) => console.error(`[${name}] failed to start: ${e.message}`))
+  }
+
+  state.start = launch
+  state.stop = () => {
+    state.status = "stopped"
+    if (state.timer) clearTimeout(state.timer)
+    state.child?.kill()
+    state.child = null
+  }
+  state.restart = () => {
+    state.stop()
+    state.restarts = 0
+    launch()
+  }
+  return state
+}
+
+const backend = supervise("backend", () =>
+  spawn(PYTHON, ["-m", "uvicorn", "api:app", "--host", "127.0.0.1", "--port", String(BACKEND_PORT)], {
+    cwd: BACKEND_DIR,
+    env: {
+      ...process.env,
+      MURLI_CORS_ORIGINS: [process.env.MURLI_CORS_ORIGINS, `http://localhost:${APP_PORT}`, `http://127.0.0.1:${APP_PORT}`, process.env.MURLI_APP_URL]
+        .filter(Boolean)
+        .join(","),
+    },
+  }))
+
+// Runs the production build (`next build` first) with Electron's own Node
+function startNextServer() {
+  const nextBin = require.resolve("next/dist/bin/next", { paths: [FRONTEND_DIR] })
+  nextServer = spawn(process.execPath, [nextBin, "start", "-p", String(APP_PORT)], {
+    cwd: FRONTEND_DIR,
+    env: { ...process.env, ELECTRON_RUN_AS_NODE: "1" },
+    stdio: "inherit",
+  })
+  return `http://localhost:${APP_PORT}`
+}
+
+async function waitForUrl(url, timeoutMs = 30000) {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(url)
+      if (res.ok) return
+    } catch {
+      // not listening yet
+    }
+    await new Promise((r) => setTimeout(r, 500))
+  }
+  throw new Error(`${url} did not respond within ${timeoutMs / 1000}s`)
+}
+
+// ---------------------------------------------------------------------------
+// Tray
+// ---------------------------------------------------------------------------
+
+function dotIcon([r, g, b], size = 16) {
+  const buf = Buffer.alloc(size * size * 4)
+  const c = (size - 1) / 2
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inside = (x - c) ** 2 + (y - c) ** 2 <= (size / 2 - 1) ** 2
+      const i = (y * size + x) * 4
+      buf[i] = b
+      buf[i + 1] = g
+      buf[i + 2] = r
+      buf[i + 3] = inside ? 255 : 0
+    }
+  }
+  return nativeImage.createFromBitmap(buf, { width: size, height: size })
+}
+
+function signalLabel() {
+  if (!lastSignal) return "No signal yet"
+  const { symbol, signal, agreeing } = lastSignal
+  return `${symbol}: ${signal.replace("_", " ")}${agreeing ? ` (${agreeing})` : ""}`
+}
+
+function showWindow() {
+  if (!mainWindow) return
+  mainWindow.show()
+  mainWindow.focus()
+}
+
+function updateTray() {
+  if (!tray) return
+  tray.setImage(dotIcon(SIGNAL_COLORS[lastSignal?.signal ?? "NONE"]))
+  tray.setToolTip(`MURLI — ${signalLabel()}`)
+  if (process.platform === "darwin") tray.setTitle(lastSignal ? lastSignal.signal.replace("_", " ") : "")
+  tray.setContextMenu(Menu.buildFromTemplate([
+    { label: signalLabel(), enabled: false },
+    { type: "separator" },
+    { label: "Show MURLI", click: showWindow },
+    ...(SPAWN_BACKEND
+      ? [
+          { label: `Backend: ${backend.status}`, enabled: false },
+          { label: "Restart backend", click: () => backend.restart() },
+        ]
+      : []),
+    { type: "separator" },
+    { label: "Quit", click: () => app.quit() },
+  ]))
+}
+
+// ---------------------------------------------------------------------------
+// Window
+// ---------------------------------------------------------------------------
+
+async function createWindow() {
+  mainWindow = new BrowserWindow({
+    width: 1440,
+    height: 960,
+    backgroundColor: "#000000",
+    title: "MURLI",
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js"),
+      contextIsolation: true,
+      // Keep the 60 s auto-refresh and alerts running while minimised or hidden
+      backgroundThrottling: false,
+    },
+  })
+
+  // Closing hides to the tray; Quit from the tray menu exits
+  mainWindow.on("close", (e) => {
+    if (isQuitting) return
+    e.preventDefault()
+    mainWindow.hide()
+  })
+
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    shell.openExternal(url)
+    return { action: "deny" }
+  })
+
+  const url = process.env.MURLI_APP_URL || startNextServer()
+  await waitForUrl(url)
+  await mainWindow.loadURL(url)
+}
+
+ipcMain.on("murli:signal", (_e, payload) => {
+  lastSignal = payload
+  updateTray()
+})
+
+ipcMain.on("murli:notify", (_e, { title, body }) => {
+  if (!Notification.isSupported()) return
+  const n = new Notification({ title, body, silent: true })
+  n.on("click", showWindow)
+  n.show()
+})
+
+ipcMain.handle("murli:backend-status", () => (SPAWN_BACKEND ? backend.status : "external"))
+
+if (!app.requestSingleInstanceLock()) {
+  app.quit()
+} else {
+  app.on("second-instance", showWindow)
+
+  app.whenReady().then(async () => {
+    if (process.platform === "win32") app.setAppUserModelId("com.murli.dashboard")
+    tray = new Tray(dotIcon(SIGNAL_COLORS.NONE))
+    tray.on("click", showWindow)
+    if (SPAWN_BACKEND) backend.start()
+    updateTray()
+    try {
+      await createWindow()
+    } catch (e) {
+      console.error(e)
+      app.quit()
+    }
+  })
+
+  app.on("activate", showWindow)
+
+  app.on("before-quit", () => {
+    isQuitting = true
+    backend.stop()
+    nextServer?.kill()
+  })
+
+  // The tray keeps the app alive when the window is hidden
+  app.on("window-all-closed", () => {})
+}
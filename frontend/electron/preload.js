@@ -0,0 +1,9 @@
+// Exposes a narrow bridge to the dashboard; lib/desktop.ts is the typed side.
+
+const { contextBridge, ipcRenderer } = require("electron")
+
+contextBridge.exposeInMainWorld("murliDesktop", {
+  setSignal: (payload) => ipcRenderer.send("murli:signal", payload),
+  notify: (payload) => ipcRenderer.send("murli:notify", payload),
+  backendStatus: () => ipcRenderer.invoke("murli:backend-status"),
+})
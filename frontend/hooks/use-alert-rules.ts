@@ -0,0 +1,48 @@
+import * as React from "react"
+import {
+  loadAlertLog,
+  loadAlertRules,
+  saveAlertLog,
+  saveAlertRules,
+  type AlertRule,
+  type FiredAlert,
+} from "@/lib/alert-rules"
+
+// Rules also change outside React when they fire (lastFiredAt), so callers
+// reload() before showing them.
+export function useAlertRules() {
+  const [rules, setRules] = React.useState<AlertRule[]>([])
+  const [log, setLog] = React.useState<FiredAlert[]>([])
+
+  const reload = React.useCallback(() => {
+    setRules(loadAlertRules())
+    setLog(loadAlertLog())
+  }, [])
+
+  React.useEffect(reload, [reload])
+
+  const persist = React.useCallback((next: AlertRule[]) => {
+    saveAlertRules(next)
+    setRules(next)
+  }, [])
+
+  const addRule = React.useCallback((rule: AlertRule) => persist([...loadAlertRules(), rule]), [persist])
+
+  const updateRule = React.useCallback(
+    (id: string, changes: Partial<AlertRule>) =>
+      persist(loadAlertRules().map((r) => (r.id === id ? { ...r, ...changes } : r))),
+    [persist]
+  )
+
+  const removeRule = React.useCallback(
+    (id: string) => persist(loadAlertRules().filter((r) => r.id !== id)),
+    [persist]
+  )
+
+  const clearLog = React.useCallback(() => {
+    saveAlertLog([])
+    setLog([])
+  }, [])
+
+  return { rules, log, reload, addRule, updateRule, removeRule, clearLog }
+}
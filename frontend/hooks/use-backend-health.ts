@@ -0,0 +1,30 @@
+import * as React from "react"
+import { checkHealth, type BackendHealth } from "@/lib/api"
+
+const HEALTH_POLL_MS = 30000
+
+export function useBackendHealth(baseUrl: string) {
+  const [health, setHealth] = React.useState<BackendHealth | null>(null)
+
+  const ping = React.useCallback(async () => {
+    setHealth(null)
+    setHealth(await checkHealth(baseUrl))
+  }, [baseUrl])
+
+  React.useEffect(() => {
+    let cancelled = false
+    const run = async () => {
+      const result = await checkHealth(baseUrl)
+      if (!cancelled) setHealth(result)
+    }
+    setHealth(null)
+    run()
+    const id = setInterval(run, HEALTH_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(id)
+    }
+  }, [baseUrl])
+
+  return { health, ping }
+}
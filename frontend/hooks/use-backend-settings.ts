@@ -0,0 +1,62 @@
+import * as React from "react"
+import {
+  DEFAULT_BACKEND_SETTINGS,
+  getActiveProfile,
+  loadBackendSettings,
+  normalizeBaseUrl,
+  saveBackendSettings,
+  type BackendProfile,
+  type BackendSettings,
+} from "@/lib/backend-config"
+
+export function useBackendSettings() {
+  const [settings, setSettings] = React.useState<BackendSettings>(DEFAULT_BACKEND_SETTINGS)
+
+  React.useEffect(() => {
+    setSettings(loadBackendSettings())
+  }, [])
+
+  const update = React.useCallback((next: BackendSettings) => {
+    saveBackendSettings(next)
+    setSettings(next)
+  }, [])
+
+  const setActive = React.useCallback(
+    (id: string) => update({ ...settings, activeId: id }),
+    [settings, update]
+  )
+
+  const saveProfile = React.useCallback(
+    (profile: BackendProfile) => {
+      const cleaned = { ...profile, baseUrl: normalizeBaseUrl(profile.baseUrl) }
+      update({ ...settings, profiles: settings.profiles.map((p) => (p.id === profile.id ? cleaned : p)) })
+    },
+    [settings, update]
+  )
+
+  const addProfile = React.useCallback(
+    (profile: BackendProfile) => {
+      const cleaned = { ...profile, baseUrl: normalizeBaseUrl(profile.baseUrl) }
+      update({ profiles: [...settings.profiles, cleaned], activeId: cleaned.id })
+    },
+    [settings, update]
+  )
+
+  const removeProfile = React.useCallback(
+    (id: string) => {
+      const profiles = settings.profiles.filter((p) => p.id !== id)
+      if (!profiles.length) return
+      update({ profiles, activeId: settings.activeId === id ? profiles[0].id : settings.activeId })
+    },
+    [settings, update]
+  )
+
+  return {
+    profiles: settings.profiles,
+    activeProfile: getActiveProfile(settings),
+    setActive,
+    saveProfile,
+    addProfile,
+    removeProfile,
+  }
+}
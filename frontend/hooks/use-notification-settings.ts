@@ -0,0 +1,22 @@
+import * as React from "react"
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  loadNotificationSettings,
+  saveNotificationSettings,
+  type NotificationSettings,
+} from "@/lib/notifications"
+
+export function useNotificationSettings() {
+  const [settings, setSettings] = React.useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS)
+
+  React.useEffect(() => {
+    setSettings(loadNotificationSettings())
+  }, [])
+
+  const update = React.useCallback((next: NotificationSettings) => {
+    saveNotificationSettings(next)
+    setSettings(next)
+  }, [])
+
+  return { settings, setSettings: update }
+}
@@ -0,0 +1,17 @@
+import * as React from "react"
+import { PAPER_TRADES_EVENT, loadPaperTrades, type PaperTrade } from "@/lib/paper-trading"
+
+// Trades are marked from the dashboard and watchlist refreshes, so every view
+// reloads on the change event instead of holding its own copy.
+export function usePaperTrades() {
+  const [trades, setTrades] = React.useState<PaperTrade[]>([])
+
+  React.useEffect(() => {
+    const reload = () => setTrades(loadPaperTrades())
+    reload()
+    window.addEventListener(PAPER_TRADES_EVENT, reload)
+    return () => window.removeEventListener(PAPER_TRADES_EVENT, reload)
+  }, [])
+
+  return trades
+}
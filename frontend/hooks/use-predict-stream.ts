@@ -0,0 +1,38 @@
+import * as React from "react"
+import type { PredictRequest, PredictResponse } from "@/lib/api"
+import { getApiBase } from "@/lib/backend-config"
+import { getMockScenario } from "@/lib/mock-backend"
+import { subscribePredict, type StreamStatus } from "@/lib/predict-stream"
+
+// Subscribes while `req` is non-null and resubscribes whenever its contents
+// or the active backend change (ticker, timeframes, profile). "off" means no
+// subscription is wanted, which includes running against the mock backend: it
+// has no /stream, so callers poll.
+export function usePredictStream(
+  req: PredictRequest | null,
+  onData: (data: PredictResponse, symbol: string, req: PredictRequest) => void,
+  onError?: (detail: string, symbol: string) => void
+): StreamStatus | "off" {
+  const [status, setStatus] = React.useState<StreamStatus | "off">("off")
+  const onDataRef = React.useRef(onData)
+  onDataRef.current = onData
+  const onErrorRef = React.useRef(onError)
+  onErrorRef.current = onError
+
+  const key = req && !getMockScenario() ? JSON.stringify({ base: getApiBase(), req }) : null
+
+  React.useEffect(() => {
+    if (!key) {
+      setStatus("off")
+      return
+    }
+    const { req: subscribed }: { req: PredictRequest } = JSON.parse(key)
+    return subscribePredict(subscribed, {
+      onData: (data) => onDataRef.current(data, subscribed.symbol, subscribed),
+      onStatus: setStatus,
+      onError: (detail) => onErrorRef.current?.(detail, subscribed.symbol),
+    })
+  }, [key])
+
+  return status
+}
@@ -0,0 +1,81 @@
+import * as React from "react"
+import { getFrame, type RecordedFrame, type RecordingSession } from "@/lib/session-recorder"
+
+export const REPLAY_SPEEDS = [1, 10, 60] as const
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number]
+
+// Frames come every dashboard refresh (60 s) or stream update; a longer gap is
+// an overnight close or halt, which would stall playback, so it is squeezed
+// to a fixed wait before the speed applies
+const MAX_LIVE_GAP_MS = 2 * 60_000
+const SKIPPED_GAP_WAIT_MS = 5000
+const MIN_FRAME_WAIT_MS = 50
+
+// `prev` is the frame shown just before, and only when playback advanced by
+// exactly one frame; scrubbing passes null so jumps don't fire alerts.
+export type ReplayFrameHandler = (frame: RecordedFrame, prev: RecordedFrame | null) => void
+
+export function useReplay(onFrame: ReplayFrameHandler) {
+  const [session, setSession] = React.useState<RecordingSession | null>(null)
+  const [index, setIndex] = React.useState(0)
+  const [playing, setPlaying] = React.useState(false)
+  const [speed, setSpeed] = React.useState<ReplaySpeed>(1)
+  const [error, setError] = React.useState<string | null>(null)
+  const shownRef = React.useRef<RecordedFrame | null>(null)
+  const onFrameRef = React.useRef(onFrame)
+  onFrameRef.current = onFrame
+
+  const count = session?.times.length ?? 0
+
+  React.useEffect(() => {
+    if (!session || !count) return
+    let cancelled = false
+    getFrame(session.id, index)
+      .then((frame) => {
+        if (cancelled || !frame) return
+        const shown = shownRef.current
+        onFrameRef.current(frame, shown && shown.sessionId === frame.sessionId && shown.seq === frame.seq - 1 ? shown : null)
+        shownRef.current = frame
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)))
+    return () => {
+      cancelled = true
+    }
+  }, [session, index, count])
+
+  React.useEffect(() => {
+    if (!session || !playing) return
+    if (index >= count - 1) {
+      setPlaying(false)
+      return
+    }
+    const gap = new Date(session.times[index + 1]).getTime() - new Date(session.times[index]).getTime()
+    const wait = Math.max((gap > MAX_LIVE_GAP_MS ? SKIPPED_GAP_WAIT_MS : gap) / speed, MIN_FRAME_WAIT_MS)
+    const id = setTimeout(() => setIndex((i) => i + 1), wait)
+    return () => clearTimeout(id)
+  }, [session, playing, index, count, speed])
+
+  const start = React.useCallback((next: RecordingSession) => {
+    shownRef.current = null
+    setError(null)
+    setPlaying(false)
+    setIndex(0)
+    setSession(next)
+  }, [])
+
+  const stop = React.useCallback(() => {
+    shownRef.current = null
+    setPlaying(false)
+    setSession(null)
+  }, [])
+
+  const seek = React.useCallback((i: number) => setIndex(Math.min(Math.max(i, 0), Math.max(count - 1, 0))), [count])
+  const step = React.useCallback((delta: number) => {
+    setPlaying(false)
+    setIndex((i) => Math.min(Math.max(i + delta, 0), Math.max(count - 1, 0)))
+  }, [count])
+
+  return { session, index, count, playing, speed, error, start, stop, seek, step, setPlaying, setSpeed }
+}
+
+export type ReplayControls = ReturnType<typeof useReplay>
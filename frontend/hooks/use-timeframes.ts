@@ -0,0 +1,18 @@
+import * as React from "react"
+import { DEFAULT_TIMEFRAMES, loadTimeframes, saveTimeframes, sortTimeframes, type TimeframeConfig } from "@/lib/timeframes"
+
+export function useTimeframes() {
+  const [timeframes, setTimeframes] = React.useState<TimeframeConfig[]>(DEFAULT_TIMEFRAMES)
+
+  React.useEffect(() => {
+    setTimeframes(loadTimeframes())
+  }, [])
+
+  const update = React.useCallback((next: TimeframeConfig[]) => {
+    const sorted = sortTimeframes(next)
+    saveTimeframes(sorted)
+    setTimeframes(sorted)
+  }, [])
+
+  return { timeframes, setTimeframes: update }
+}
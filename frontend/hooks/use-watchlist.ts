@@ -0,0 +1,117 @@
+import * as React from "react"
+import { fetchPredict, describeApiError, type PredictResponse } from "@/lib/api"
+import { trackPrediction } from "@/lib/forward-test"
+import { shouldAutoRefresh } from "@/lib/market-hours"
+import { alertOnPrediction } from "@/lib/notifications"
+import { announcePaperExits, markPaperTrades } from "@/lib/paper-trading"
+import { readStored, writeStored } from "@/lib/storage"
+import { buildPredictRequest, loadTimeframes } from "@/lib/timeframes"
+
+const STORAGE_KEY = "murli.watchlist"
+const DEFAULT_WATCHLIST = ["SPY", "QQQ"]
+
+export interface WatchlistEntry {
+  data: PredictResponse | null
+  error: string | null
+  updatedAt: Date | null
+  isLoading: boolean
+}
+
+const EMPTY_ENTRY: WatchlistEntry = { data: null, error: null, updatedAt: null, isLoading: false }
+
+interface UseWatchlistOptions {
+  refreshMs: number
+  // Symbol the dashboard already keeps fresh. It is not fetched again (every
+  // /predict retrains the SVMs and feeds the backend's regime buffers); the
+  // dashboard hands its result over through `share` instead.
+  activeSymbol?: string | null
+}
+
+export function useWatchlist({ refreshMs, activeSymbol }: UseWatchlistOptions) {
+  const [symbols, setSymbols] = React.useState<string[]>([])
+  const [entries, setEntries] = React.useState<Record<string, WatchlistEntry>>({})
+  const symbolsRef = React.useRef<string[]>([])
+  const activeSymbolRef = React.useRef(activeSymbol?.toUpperCase() ?? null)
+  activeSymbolRef.current = activeSymbol?.toUpperCase() ?? null
+  const isCycleRunning = React.useRef(false)
+
+  const persist = React.useCallback((next: string[]) => {
+    symbolsRef.current = next
+    setSymbols(next)
+    writeStored(STORAGE_KEY, next)
+  }, [])
+
+  const refreshSymbol = React.useCallback(async (symbol: string) => {
+    setEntries((prev) => ({
+      ...prev,
+      [symbol]: { ...EMPTY_ENTRY, ...prev[symbol], isLoading: true },
+    }))
+    try {
+      const req = buildPredictRequest(symbol, loadTimeframes())
+      const data = await fetchPredict(req)
+      alertOnPrediction(symbol, data)
+      announcePaperExits(markPaperTrades(symbol, data))
+      // Journaling and live scoring are best-effort; a full or blocked IndexedDB must not break refresh
+      trackPrediction(symbol, data, req.consensus_intervals).catch(() => {})
+      setEntries((prev) => ({ ...prev, [symbol]: { data, error: null, updatedAt: new Date(), isLoading: false } }))
+    } catch (e) {
+      setEntries((prev) => ({
+        ...prev,
+        [symbol]: { ...EMPTY_ENTRY, ...prev[symbol], error: describeApiError(e).title, isLoading: false },
+      }))
+    }
+  }, [])
+
+  // Symbols are fetched one at a time — each /predict call trains an SVM
+  // per interval, so fanning out 20 requests at once would stall the backend.
+  const refreshAll = React.useCallback(async () => {
+    if (isCycleRunning.current) return
+    isCycleRunning.current = true
+    try {
+      for (const symbol of symbolsRef.current) {
+        if (symbol !== activeSymbolRef.current) await refreshSymbol(symbol)
+      }
+    } finally {
+      isCycleRunning.current = false
+    }
+  }, [refreshSymbol])
+
+  React.useEffect(() => {
+    const stored = readStored<string[]>(STORAGE_KEY, DEFAULT_WATCHLIST)
+    symbolsRef.current = stored
+    setSymbols(stored)
+    refreshAll()
+    const id = setInterval(() => { if (shouldAutoRefresh()) refreshAll() }, refreshMs)
+    return () => clearInterval(id)
+  }, [refreshAll, refreshMs])
+
+  const share = React.useCallback((symbol: string, data: PredictResponse, updatedAt: Date) => {
+    const sym = symbol.toUpperCase()
+    setEntries((prev) => (symbolsRef.current.includes(sym)
+      ? { ...prev, [sym]: { data, error: null, updatedAt, isLoading: false } }
+      : prev))
+  }, [])
+
+  const addSymbol = React.useCallback(
+    (raw: string) => {
+      const symbol = raw.trim().toUpperCase()
+      if (!symbol || symbolsRef.current.includes(symbol)) return
+      persist([...symbolsRef.current, symbol])
+      if (symbol !== activeSymbolRef.current) refreshSymbol(symbol)
+    },
+    [persist, refreshSymbol]
+  )
+
+  const removeSymbol = React.useCallback(
+    (symbol: string) => {
+      persist(symbolsRef.current.filter((s) => s !== symbol))
+      setEntries((prev) => {
+        const { [symbol]: _removed, ...rest } = prev
+        return rest
+      })
+    },
+    [persist]
+  )
+
+  return { symbols, entries, addSymbol, removeSymbol, refreshAll, share }
+}
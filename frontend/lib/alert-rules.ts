@@ -0,0 +1,153 @@
+// User-defined alert rules evaluated against each /predict response. Rules and
+// the fired log live in localStorage; delivery goes through lib/notifications.
+
+import type { IntervalResult, PredictResponse } from "@/lib/api"
+import { readStored, writeStored } from "@/lib/storage"
+
+export type RuleMetric = "price" | "confidence" | "risk_reward" | "atr_ratio" | "low_volatility"
+export type RuleOp = ">" | ">=" | "<" | "<=" | "crosses_above" | "crosses_below" | "becomes_true" | "becomes_false"
+
+export const ANY = "*"
+
+export interface AlertRule {
+  id: string
+  symbol: string
+  interval: string
+  metric: RuleMetric
+  op: RuleOp
+  value: number
+  enabled: boolean
+  cooldownMin: number
+  lastFiredAt: string | null
+}
+
+export interface FiredAlert {
+  ruleId: string
+  label: string
+  symbol: string
+  detail: string
+  firedAt: string
+}
+
+interface MetricSpec {
+  label: string
+  ops: RuleOp[]
+  // Percent metrics are entered as 80 but compared as 0.8
+  percent?: boolean
+  perInterval: boolean
+  read: (r: IntervalResult) => number | boolean | null
+}
+
+export const METRICS: Record<RuleMetric, MetricSpec> = {
+  price: { label: "Price", ops: ["crosses_above", "crosses_below", ">", "<"], perInterval: false, read: (r) => r.latest_price },
+  confidence: { label: "Confidence", ops: [">", ">=", "<", "<="], percent: true, perInterval: true, read: (r) => r.prediction.confidence },
+  risk_reward: { label: "R/R", ops: [">", ">=", "<", "<="], perInterval: true, read: (r) => r.risk_reward },
+  atr_ratio: { label: "ATR/Close", ops: [">", ">=", "<", "<="], percent: true, perInterval: true, read: (r) => r.atr_ratio },
+  low_volatility: { label: "Low volatility", ops: ["becomes_true", "becomes_false"], perInterval: true, read: (r) => r.low_volatility },
+}
+
+export const OP_LABELS: Record<RuleOp, string> = {
+  ">": ">",
+  ">=": "≥",
+  "<": "<",
+  "<=": "≤",
+  crosses_above: "crosses above",
+  crosses_below: "crosses below",
+  becomes_true: "becomes true",
+  becomes_false: "becomes false",
+}
+
+const RULES_KEY = "murli.alertRules"
+const LOG_KEY = "murli.alertLog"
+const LOG_LIMIT = 200
+
+export function loadAlertRules(): AlertRule[] {
+  return readStored<AlertRule[]>(RULES_KEY, [])
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  writeStored(RULES_KEY, rules)
+}
+
+export function loadAlertLog(): FiredAlert[] {
+  return readStored<FiredAlert[]>(LOG_KEY, [])
+}
+
+export function saveAlertLog(log: FiredAlert[]) {
+  writeStored(LOG_KEY, log.slice(0, LOG_LIMIT))
+}
+
+function isBooleanOp(op: RuleOp) {
+  return op === "becomes_true" || op === "becomes_false"
+}
+
+export function describeRule(rule: AlertRule) {
+  const spec = METRICS[rule.metric]
+  const symbol = rule.symbol === ANY ? "Any symbol" : rule.symbol
+  const scope = spec.perInterval ? ` ${rule.interval === ANY ? "any timeframe" : rule.interval}` : ""
+  const value = isBooleanOp(rule.op) ? "" : ` ${rule.value}${spec.percent ? "%" : ""}`
+  return `${symbol}${scope} ${spec.label} ${OP_LABELS[rule.op]}${value}`
+}
+
+function compare(op: RuleOp, before: number | boolean | null | undefined, after: number | boolean | null, threshold: number) {
+  if (after == null) return false
+  switch (op) {
+    case ">": return (after as number) > threshold
+    case ">=": return (after as number) >= threshold
+    case "<": return (after as number) < threshold
+    case "<=": return (after as number) <= threshold
+    case "crosses_above": return before != null && (before as number) < threshold && (after as number) >= threshold
+    case "crosses_below": return before != null && (before as number) > threshold && (after as number) <= threshold
+    case "becomes_true": return before === false && after === true
+    case "becomes_false": return before === true && after === false
+  }
+}
+
+function formatValue(rule: AlertRule, v: number | boolean | null) {
+  if (typeof v !== "number") return String(v)
+  return METRICS[rule.metric].percent ? `${(v * 100).toFixed(1)}%` : v.toFixed(2)
+}
+
+// Returns a human-readable detail when `rule` matches, null otherwise
+export function matchRule(rule: AlertRule, symbol: string, prev: PredictResponse | undefined, next: PredictResponse): string | null {
+  if (rule.symbol !== ANY && rule.symbol !== symbol) return null
+  const spec = METRICS[rule.metric]
+  const threshold = spec.percent ? rule.value / 100 : rule.value
+
+  if (!spec.perInterval) {
+    const [first] = Object.keys(next.intervals)
+    if (!first) return null
+    const after = spec.read(next.intervals[first])
+    const before = prev?.intervals[first] ? spec.read(prev.intervals[first]) : undefined
+    return compare(rule.op, before, after, threshold) ? `${symbol} ${spec.label.toLowerCase()} ${formatValue(rule, after)}` : null
+  }
+
+  const hits = Object.entries(next.intervals)
+    .filter(([interval]) => rule.interval === ANY || rule.interval === interval)
+    .filter(([interval, result]) => {
+      const before = prev?.intervals[interval] ? spec.read(prev.intervals[interval]) : undefined
+      return compare(rule.op, before, spec.read(result), threshold)
+    })
+    .map(([interval, result]) => `${interval} ${formatValue(rule, spec.read(result))}`)
+  return hits.length ? `${symbol} ${spec.label}: ${hits.join(", ")}` : null
+}
+
+// Evaluates every enabled rule outside its cooldown, persists lastFiredAt and
+// the log, and returns what fired so the caller can deliver it.
+export function evaluateAlertRules(symbol: string, prev: PredictResponse | undefined, next: PredictResponse, now = new Date()): FiredAlert[] {
+  const rules = loadAlertRules()
+  const fired: FiredAlert[] = []
+  const updated = rules.map((rule) => {
+    if (!rule.enabled) return rule
+    if (rule.lastFiredAt && now.getTime() - new Date(rule.lastFiredAt).getTime() < rule.cooldownMin * 60_000) return rule
+    const detail = matchRule(rule, symbol, prev, next)
+    if (!detail) return rule
+    fired.push({ ruleId: rule.id, label: describeRule(rule), symbol, detail, firedAt: now.toISOString() })
+    return { ...rule, lastFiredAt: now.toISOString() }
+  })
+  if (fired.length) {
+    saveAlertRules(updated)
+    saveAlertLog([...fired, ...loadAlertLog()])
+  }
+  return fired
+}
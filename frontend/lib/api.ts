@@ -0,0 +1,298 @@
+import { z } from "zod"
+import { getApiBase } from "@/lib/backend-config"
+import { getMockScenario, mockRequest } from "@/lib/mock-backend"
+
+// ---------------------------------------------------------------------------
+// /predict — mirrors the payload assembled in backend/api.py::predict
+// ---------------------------------------------------------------------------
+
+export const OhlcvBarSchema = z.object({
+  Date: z.string(),
+  Open: z.number(),
+  High: z.number(),
+  Low: z.number(),
+  Close: z.number(),
+  Volume: z.number().nullable().optional(),
+}).passthrough()
+
+export const PredictionSchema = z.object({
+  predicted_type: z.number().nullable().optional(),
+  predicted_type_name: z.string().nullable(),
+  confidence: z.number(),
+  estimated_value: z.number().nullable().optional(),
+  estimated_index_offset: z.number().nullable().optional(),
+  method: z.string().optional(),
+  regime: z.string().nullable().optional(),
+}).passthrough()
+
+// One entry of `waves`: the pivot and the wave that ends at it. `index` is
+// into `ohlcv`, like peaks/troughs; `value` is the smoothed close the wave
+// detector worked on, not the bar's own high or low.
+export const PivotSchema = z.object({
+  index: z.number().int(),
+  time: z.string(),
+  type: z.enum(["Peak", "Trough"]),
+  value: z.number().nullable(),
+  height: z.number().nullable(),
+  duration_bars: z.number().nullable(),
+  pct_move: z.number().nullable(),
+  slope: z.number().nullable().optional(),
+  volume: z.number().nullable().optional(),
+  confidence: z.number().nullable(),
+  prev_time: z.string().nullable(),
+})
+
+export const IntervalResultSchema = z.object({
+  prediction: PredictionSchema,
+  entry: z.number().nullable(),
+  exit_target: z.number().nullable(),
+  support: z.number().nullable(),
+  resistance: z.number().nullable(),
+  risk_reward: z.number().nullable(),
+  is_valid: z.boolean(),
+  ohlcv: z.array(OhlcvBarSchema),
+  peaks: z.array(z.number().int()),
+  troughs: z.array(z.number().int()),
+  // Absent from older backends and from sessions recorded against them
+  waves: z.array(PivotSchema).optional(),
+  latest_price: z.number().nullable(),
+  latest_timestamp: z.string().nullable(),
+  projected_time_et: z.string().nullable(),
+  projected_at: z.string().nullable().optional(),
+  atr: z.number().nullable(),
+  atr_ratio: z.number().nullable(),
+  low_volatility: z.boolean(),
+  macd_tick: z.boolean(),
+})
+
+export const TradeConsensusSchema = z.object({
+  signal: z.enum(["CALL", "PUT"]),
+  strike: z.number(),
+  avg_entry: z.number(),
+  sl: z.number(),
+  tp: z.number(),
+  risk_reward: z.number().nullable(),
+  agreeing: z.string(),
+  is_trade: z.literal(true),
+})
+
+export const NoTradeConsensusSchema = z.object({
+  signal: z.literal("NO_TRADE"),
+  reason: z.string(),
+  is_trade: z.literal(false),
+})
+
+export const ConsensusSchema = z.discriminatedUnion("is_trade", [TradeConsensusSchema, NoTradeConsensusSchema])
+
+export const PredictResponseSchema = z.object({
+  intervals: z.record(IntervalResultSchema),
+  consensus: ConsensusSchema,
+})
+
+export type OhlcvBar = z.infer<typeof OhlcvBarSchema>
+export type Prediction = z.infer<typeof PredictionSchema>
+export type Pivot = z.infer<typeof PivotSchema>
+export type IntervalResult = z.infer<typeof IntervalResultSchema>
+export type TradeConsensus = z.infer<typeof TradeConsensusSchema>
+export type Consensus = z.infer<typeof ConsensusSchema>
+export type PredictResponse = z.infer<typeof PredictResponseSchema>
+
+export interface PredictRequest {
+  symbol: string
+  intervals: string[]
+  period_map: Record<string, string>
+  consensus_intervals?: string[]
+}
+
+// ---------------------------------------------------------------------------
+// /backtest — mirrors backend/backtester.py::run_backtest
+// ---------------------------------------------------------------------------
+
+export const ExitReasonSchema = z.enum(["tp", "sl", "timeout"])
+
+export const BacktestTradeSchema = z.object({
+  signal_type: z.enum(["Peak", "Trough"]),
+  confidence: z.number(),
+  entry_time: z.string().nullable(),
+  entry_price: z.number(),
+  tp: z.number(),
+  sl: z.number(),
+  exit_time: z.string().nullable(),
+  exit_price: z.number().nullable(),
+  exit_reason: ExitReasonSchema.nullable(),
+  pnl_pct: z.number().nullable(),
+})
+
+export const BacktestMetricsSchema = z.object({
+  total_trades: z.number(),
+  note: z.string().optional(),
+  win_rate: z.number().optional(),
+  avg_win_pct: z.number().optional(),
+  avg_loss_pct: z.number().optional(),
+  profit_factor: z.number().nullable().optional(),
+  expectancy_pct: z.number().optional(),
+  total_return_pct: z.number().optional(),
+  max_drawdown_pct: z.number().optional(),
+  avg_confidence: z.number().optional(),
+  by_exit_reason: z.record(ExitReasonSchema, z.number()).optional(),
+})
+
+export const BacktestResponseSchema = z.object({
+  symbol: z.string(),
+  interval: z.string(),
+  period: z.string(),
+  total_bars: z.number(),
+  total_pivots: z.number(),
+  skipped_low_confidence: z.number(),
+  skipped_low_rr: z.number(),
+  skipped_no_data: z.number(),
+  params: z.object({
+    sl_atr_mult: z.number(),
+    tp_atr_mult: z.number(),
+    confidence_threshold: z.number(),
+    min_rr: z.number(),
+  }),
+  metrics: BacktestMetricsSchema,
+  trades: z.array(BacktestTradeSchema),
+})
+
+export type ExitReason = z.infer<typeof ExitReasonSchema>
+export type BacktestTrade = z.infer<typeof BacktestTradeSchema>
+export type BacktestMetrics = z.infer<typeof BacktestMetricsSchema>
+export type BacktestResponse = z.infer<typeof BacktestResponseSchema>
+
+export interface BacktestRequest {
+  symbol: string
+  interval: string
+  period: string
+  lookback: number
+  min_train_pivots: number
+  sl_atr_mult: number
+  tp_atr_mult: number
+  max_holding_bars: number
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export type ApiErrorKind = "network" | "http" | "schema"
+
+export abstract class ApiError extends Error {
+  abstract readonly kind: ApiErrorKind
+  constructor(public endpoint: string, message: string) {
+    super(message)
+  }
+}
+
+export class ApiNetworkError extends ApiError {
+  readonly kind = "network"
+  constructor(endpoint: string, cause: unknown) {
+    super(endpoint, `Could not reach ${getApiBase()}${endpoint}: ${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = "ApiNetworkError"
+  }
+}
+
+export class ApiHttpError extends ApiError {
+  readonly kind = "http"
+  constructor(endpoint: string, public status: number, public detail: string | null) {
+    super(endpoint, `${endpoint} returned HTTP ${status}${detail ? `: ${detail}` : ""}`)
+    this.name = "ApiHttpError"
+  }
+}
+
+export class ApiSchemaError extends ApiError {
+  readonly kind = "schema"
+  constructor(endpoint: string, public issues: z.ZodIssue[]) {
+    super(endpoint, `Unexpected ${endpoint} response: ${issues.slice(0, 3).map((i) => `${i.path.join(".") || "(root)"} ${i.message}`).join("; ")}`)
+    this.name = "ApiSchemaError"
+  }
+}
+
+// FastAPI sends `detail` as a string for HTTPException and as a list of
+// {loc, msg} objects for request validation errors.
+function formatDetail(detail: unknown): string | null {
+  if (typeof detail === "string") return detail
+  if (Array.isArray(detail)) {
+    return detail
+      .map((d) => (d && typeof d === "object" && "msg" in d ? `${(d.loc ?? []).join(".")}: ${d.msg}` : String(d)))
+      .join("; ")
+  }
+  return null
+}
+
+function parseResponse<T extends z.ZodTypeAny>(endpoint: string, schema: T, data: unknown): z.infer<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) throw new ApiSchemaError(endpoint, parsed.error.issues)
+  return parsed.data
+}
+
+// Resolves to the unvalidated body; callers narrow it with a schema
+async function post(endpoint: string, body: unknown): Promise<unknown> {
+  const mock = getMockScenario()
+  if (mock) {
+    const { status, data } = await mockRequest(endpoint, body, mock)
+    if (status >= 400) throw new ApiHttpError(endpoint, status, formatDetail((data as { detail?: unknown })?.detail))
+    return data
+  }
+  let res: Response
+  try {
+    res = await fetch(`${getApiBase()}${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  } catch (e) {
+    throw new ApiNetworkError(endpoint, e)
+  }
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new ApiHttpError(endpoint, res.status, formatDetail(data?.detail))
+  return data
+}
+
+export async function fetchPredict(req: PredictRequest): Promise<PredictResponse> {
+  return parseResponse("/predict", PredictResponseSchema, await post("/predict", req))
+}
+
+// run_backtest reports short histories as a 200 with an `error` field
+const BacktestDataErrorSchema = z.object({ error: z.string(), bars: z.number() })
+
+export async function fetchBacktest(req: BacktestRequest): Promise<BacktestResponse> {
+  const data = await post("/backtest", req)
+  const short = BacktestDataErrorSchema.safeParse(data)
+  if (short.success) throw new Error(`${short.data.error} (${short.data.bars} bars)`)
+  return parseResponse("/backtest", BacktestResponseSchema, data)
+}
+
+export type BackendHealth =
+  | { status: "online"; latencyMs: number }
+  | { status: "offline"; error: string }
+
+export async function checkHealth(baseUrl = getApiBase(), timeoutMs = 3000): Promise<BackendHealth> {
+  const mock = getMockScenario()
+  if (mock) {
+    const started = performance.now()
+    const { status } = await mockRequest("/health", null, mock)
+    if (status >= 400) return { status: "offline", error: `HTTP ${status}` }
+    return { status: "online", latencyMs: Math.round(performance.now() - started) }
+  }
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const started = performance.now()
+  try {
+    const res = await fetch(`${baseUrl}/health`, { signal: controller.signal })
+    if (!res.ok) return { status: "offline", error: `HTTP ${res.status}` }
+    return { status: "online", latencyMs: Math.round(performance.now() - started) }
+  } catch (e) {
+    return { status: "offline", error: controller.signal.aborted ? "Timed out" : e instanceof Error ? e.message : String(e) }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export function describeApiError(e: unknown): { title: string; description: string } {
+  if (e instanceof ApiNetworkError) return { title: "Backend unreachable", description: e.message }
+  if (e instanceof ApiHttpError) return { title: `Backend error (HTTP ${e.status})`, description: e.detail ?? e.message }
+  if (e instanceof ApiSchemaError) return { title: "Backend response did not match the expected shape", description: e.message }
+  return { title: "Request failed", description: e instanceof Error ? e.message : String(e) }
+}
@@ -0,0 +1,46 @@
+import { readStored, writeStored } from "@/lib/storage"
+
+export interface BackendProfile {
+  id: string
+  name: string
+  baseUrl: string
+}
+
+export interface BackendSettings {
+  profiles: BackendProfile[]
+  activeId: string
+}
+
+const STORAGE_KEY = "murli.backend"
+
+export const DEFAULT_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://127.0.0.1:8000"
+
+export const DEFAULT_PROFILES: BackendProfile[] = [
+  { id: "local", name: "Local", baseUrl: DEFAULT_BASE_URL },
+  { id: "lan", name: "LAN box", baseUrl: process.env.NEXT_PUBLIC_API_LAN_URL || "http://192.168.1.100:8000" },
+  { id: "staging", name: "Staging (stand-in)", baseUrl: process.env.NEXT_PUBLIC_API_STAGING_URL || "http://127.0.0.1:8001" },
+]
+
+export const DEFAULT_BACKEND_SETTINGS: BackendSettings = { profiles: DEFAULT_PROFILES, activeId: "local" }
+
+export function loadBackendSettings(): BackendSettings {
+  const stored = readStored<BackendSettings>(STORAGE_KEY, DEFAULT_BACKEND_SETTINGS)
+  if (!stored.profiles?.length) return DEFAULT_BACKEND_SETTINGS
+  return stored
+}
+
+export function saveBackendSettings(settings: BackendSettings) {
+  writeStored(STORAGE_KEY, settings)
+}
+
+export function normalizeBaseUrl(url: string) {
+  return url.trim().replace(/\/+$/, "")
+}
+
+export function getActiveProfile(settings = loadBackendSettings()): BackendProfile {
+  return settings.profiles.find((p) => p.id === settings.activeId) ?? settings.profiles[0]
+}
+
+export function getApiBase() {
+  return normalizeBaseUrl(getActiveProfile().baseUrl)
+}
@@ -0,0 +1,32 @@
+import type { BacktestRequest, BacktestTrade } from "@/lib/api"
+
+// Mirrors the defaults on BacktestRequest in backend/api.py
+export const DEFAULT_BACKTEST_PARAMS: BacktestRequest = {
+  symbol: "SPY",
+  interval: "1h",
+  period: "365d",
+  lookback: 5,
+  min_train_pivots: 20,
+  sl_atr_mult: 1.5,
+  tp_atr_mult: 2.5,
+  max_holding_bars: 60,
+}
+
+export interface EquityPoint {
+  tradeIndex: number
+  time: string | null
+  equity: number
+  drawdown: number
+}
+
+// Cumulative pnl_pct per trade, mirroring the equal-weight curve behind
+// _compute_metrics' max_drawdown_pct, with the drawdown kept at every step.
+export function buildEquityCurve(trades: BacktestTrade[]): EquityPoint[] {
+  let equity = 0
+  let peak = -Infinity
+  return trades.map((t, i) => {
+    equity += t.pnl_pct ?? 0
+    if (i === 0 || equity > peak) peak = equity
+    return { tradeIndex: i, time: t.exit_time ?? t.entry_time, equity, drawdown: equity - peak }
+  })
+}
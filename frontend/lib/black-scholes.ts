@@ -0,0 +1,100 @@
+// Black-Scholes pricing and greeks for European options on a non-dividend
+// underlying (an optional continuous yield q is supported). Times are in years.
+
+export type OptionType = "call" | "put"
+
+export interface OptionParams {
+  type: OptionType
+  spot: number
+  strike: number
+  years: number
+  rate: number
+  iv: number
+  yield?: number
+}
+
+export interface Greeks {
+  price: number
+  delta: number
+  gamma: number
+  // Per calendar day
+  theta: number
+  // Per 1 vol point (0.01)
+  vega: number
+  // Per 1 rate point (0.01)
+  rho: number
+}
+
+const DAYS_PER_YEAR = 365
+
+export function normPdf(x: number) {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI)
+}
+
+// Abramowitz & Stegun 26.2.17, |error| < 7.5e-8
+export function normCdf(x: number) {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x))
+  const poly = t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))))
+  const upper = normPdf(x) * poly
+  return x >= 0 ? 1 - upper : upper
+}
+
+export function intrinsic(type: OptionType, spot: number, strike: number) {
+  return type === "call" ? Math.max(spot - strike, 0) : Math.max(strike - spot, 0)
+}
+
+export function blackScholes({ type, spot, strike, years, rate, iv, yield: q = 0 }: OptionParams): Greeks {
+  if (years <= 0 || iv <= 0) {
+    const itm = intrinsic(type, spot, strike) > 0
+    return { price: intrinsic(type, spot, strike), delta: itm ? (type === "call" ? 1 : -1) : 0, gamma: 0, theta: 0, vega: 0, rho: 0 }
+  }
+  const sqrtT = Math.sqrt(years)
+  const d1 = (Math.log(spot / strike) + (rate - q + (iv * iv) / 2) * years) / (iv * sqrtT)
+  const d2 = d1 - iv * sqrtT
+  const discS = spot * Math.exp(-q * years)
+  const discK = strike * Math.exp(-rate * years)
+  const gamma = (Math.exp(-q * years) * normPdf(d1)) / (spot * iv * sqrtT)
+  const vega = (discS * normPdf(d1) * sqrtT) / 100
+  const decay = -(discS * normPdf(d1) * iv) / (2 * sqrtT)
+
+  if (type === "call") {
+    return {
+      price: discS * normCdf(d1) - discK * normCdf(d2),
+      delta: Math.exp(-q * years) * normCdf(d1),
+      gamma,
+      theta: (decay - rate * discK * normCdf(d2) + q * discS * normCdf(d1)) / DAYS_PER_YEAR,
+      vega,
+      rho: (discK * years * normCdf(d2)) / 100,
+    }
+  }
+  return {
+    price: discK * normCdf(-d2) - discS * normCdf(-d1),
+    delta: -Math.exp(-q * years) * normCdf(-d1),
+    gamma,
+    theta: (decay + rate * discK * normCdf(-d2) - q * discS * normCdf(-d1)) / DAYS_PER_YEAR,
+    vega,
+    rho: (-discK * years * normCdf(-d2)) / 100,
+  }
+}
+
+export interface Position {
+  type: OptionType
+  strike: number
+  premium: number
+  daysToExpiry: number
+  rate: number
+  iv: number
+  multiplier: number
+}
+
+// P/L of one long contract at `spot` after `daysElapsed` calendar days, holding IV and rate constant
+export function positionPnl(pos: Position, spot: number, daysElapsed: number) {
+  const daysLeft = Math.max(pos.daysToExpiry - daysElapsed, 0)
+  const { price } = blackScholes({ type: pos.type, spot, strike: pos.strike, years: daysLeft / DAYS_PER_YEAR, rate: pos.rate, iv: pos.iv })
+  return (price - pos.premium) * pos.multiplier
+}
+
+export function priceGrid(low: number, high: number, steps = 120) {
+  const step = (high - low) / steps
+  return Array.from({ length: steps + 1 }, (_, i) => low + i * step)
+}
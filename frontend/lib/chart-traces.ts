@@ -0,0 +1,348 @@
+import type { BacktestTrade, ExitReason, IntervalResult, OhlcvBar, Pivot } from "@/lib/api"
+import { atr, bollinger, ema, macd, macdCrossovers, rsi, sma, vwap } from "@/lib/indicators"
+
+export type ChartMode = "line" | "candle"
+
+export const EXIT_REASON_COLORS: Record<ExitReason, string> = {
+  tp: "#22c55e",
+  sl: "#ef4444",
+  timeout: "#facc15",
+}
+
+// Backend timestamps arrive both as ISO strings (ohlcv Date) and as
+// str(pd.Timestamp) ("2025-05-01 14:30:00") from the backtester.
+export function toTime(ts: string | null | undefined) {
+  if (!ts) return NaN
+  return Date.parse(ts.replace(" ", "T"))
+}
+
+export function tradesInWindow(trades: BacktestTrade[], start: string | undefined, end: string | undefined) {
+  const lo = toTime(start)
+  const hi = toTime(end)
+  if (isNaN(lo) || isNaN(hi)) return []
+  return trades.filter((t) => {
+    const entry = toTime(t.entry_time)
+    const exit = toTime(t.exit_time ?? t.entry_time)
+    return exit >= lo && entry <= hi
+  })
+}
+
+function segments(trades: BacktestTrade[], level: (t: BacktestTrade) => number) {
+  const x: (string | null)[] = []
+  const y: (number | null)[] = []
+  for (const t of trades) {
+    x.push(t.entry_time, t.exit_time ?? t.entry_time, null)
+    y.push(level(t), level(t), null)
+  }
+  return { x, y }
+}
+
+export function buildTradeTraces(trades: BacktestTrade[]): any[] {
+  if (!trades.length) return []
+  const traces: any[] = [
+    {
+      ...segments(trades, (t) => t.tp),
+      type: "scatter", mode: "lines", name: "Trade TP",
+      line: { color: EXIT_REASON_COLORS.tp, width: 1.5, dash: "dash" }, hoverinfo: "skip",
+    },
+    {
+      ...segments(trades, (t) => t.sl),
+      type: "scatter", mode: "lines", name: "Trade SL",
+      line: { color: EXIT_REASON_COLORS.sl, width: 1.5, dash: "dash" }, hoverinfo: "skip",
+    },
+  ]
+  for (const reason of Object.keys(EXIT_REASON_COLORS) as ExitReason[]) {
+    const group = trades.filter((t) => t.exit_reason === reason)
+    if (!group.length) continue
+    const color = EXIT_REASON_COLORS[reason]
+    traces.push({
+      x: group.map((t) => t.entry_time),
+      y: group.map((t) => t.entry_price),
+      text: group.map((t) => `${t.signal_type === "Peak" ? "Long" : "Short"} entry · conf ${(t.confidence * 100).toFixed(0)}%<br>TP ${t.tp.toFixed(2)} · SL ${t.sl.toFixed(2)}`),
+      hoverinfo: "text+x+y",
+      type: "scatter",
+      mode: "markers",
+      name: `Entry (${reason.toUpperCase()})`,
+      legendgroup: reason,
+      marker: {
+        color,
+        size: 10,
+        symbol: group.map((t) => (t.signal_type === "Peak" ? "triangle-right" : "triangle-left")),
+        line: { color: "#fff", width: 1 },
+      },
+    })
+    traces.push({
+      x: group.map((t) => t.exit_time),
+      y: group.map((t) => t.exit_price),
+      text: group.map((t) => `Exit ${reason.toUpperCase()} · ${t.pnl_pct?.toFixed(3) ?? "—"}%`),
+      hoverinfo: "text+x+y",
+      type: "scatter",
+      mode: "markers",
+      name: `Exit (${reason.toUpperCase()})`,
+      legendgroup: reason,
+      marker: { color, size: 10, symbol: "x", line: { color: "#fff", width: 1 } },
+    })
+  }
+  return traces
+}
+
+function levelLine(data: Partial<IntervalResult>, level: number, name: string, color: string, dash: string) {
+  const bars = data.ohlcv || []
+  return {
+    x: bars.map((d) => d.Date),
+    y: Array(bars.length).fill(level),
+    type: "scatter", mode: "lines", name,
+    line: { color, width: 1.5, dash }, hoverinfo: "skip",
+  }
+}
+
+// Peak/trough marker traces carry this in `meta` and the bar index in `customdata`
+export const PIVOT_TRACE = "pivot"
+
+function pivotHover(pivot: Pivot | undefined) {
+  if (!pivot) return ""
+  const conf = pivot.confidence != null ? `conf ${(pivot.confidence * 100).toFixed(0)}%` : "conf —"
+  const move = pivot.pct_move != null ? ` · ${pivot.pct_move >= 0 ? "+" : ""}${pivot.pct_move.toFixed(2)}%` : ""
+  return `${pivot.type} · ${conf}${move}`
+}
+
+// Ring around the pivot open in the inspector
+export function buildPivotHighlight(data: Partial<IntervalResult>, index: number, mode: ChartMode): any[] {
+  const bar = data.ohlcv?.[index]
+  if (!bar) return []
+  const isPeak = data.peaks?.includes(index)
+  return [{
+    x: [bar.Date],
+    y: [mode === "candle" ? (isPeak ? bar.High : bar.Low) : bar.Close],
+    type: "scatter",
+    mode: "markers",
+    marker: { color: "rgba(0,0,0,0)", size: 22, symbol: "circle", line: { color: "#a78bfa", width: 2.5 } },
+    hoverinfo: "skip",
+    showlegend: false,
+  }]
+}
+
+export function buildPriceTraces(data: Partial<IntervalResult>, mode: ChartMode): any[] {
+  const bars = data.ohlcv || []
+  const waves = new Map((data.waves ?? []).map((p) => [p.index, p]))
+  // In candle mode pivots sit on the wick that actually formed them
+  const peakY = (i: number) => (mode === "candle" ? bars[i]?.High : bars[i]?.Close)
+  const troughY = (i: number) => (mode === "candle" ? bars[i]?.Low : bars[i]?.Close)
+
+  return [
+    mode === "candle" ? {
+      x: bars.map((d) => d.Date),
+      open: bars.map((d) => d.Open),
+      high: bars.map((d) => d.High),
+      low: bars.map((d) => d.Low),
+      close: bars.map((d) => d.Close),
+      type: "candlestick",
+      name: "OHLC",
+      increasing: { line: { color: "#22c55e" } },
+      decreasing: { line: { color: "#ef4444" } },
+    } : {
+      x: bars.map((d) => d.Date),
+      y: bars.map((d) => d.Close),
+      type: "scatter",
+      mode: "lines",
+      name: "Close",
+      line: { color: "#818cf8", width: 2 },
+    },
+    ...(bars.some((d) => d.Volume != null) ? [{
+      x: bars.map((d) => d.Date),
+      y: bars.map((d) => d.Volume ?? 0),
+      type: "bar",
+      name: "Volume",
+      yaxis: "y2",
+      marker: { color: bars.map((d) => (d.Close >= d.Open ? "rgba(34,197,94,0.45)" : "rgba(239,68,68,0.45)")) },
+      showlegend: false,
+    }] : []),
+    ...(data.peaks?.length ? [{
+      x: data.peaks.map((i) => bars[i]?.Date),
+      y: data.peaks.map(peakY),
+      customdata: data.peaks,
+      text: data.peaks.map((i) => pivotHover(waves.get(i))),
+      hoverinfo: "text+x+y",
+      meta: PIVOT_TRACE,
+      type: "scatter",
+      mode: "markers",
+      name: "Peaks",
+      marker: { color: "#22c55e", size: 11, symbol: "triangle-up" },
+    }] : []),
+    ...(data.troughs?.length ? [{
+      x: data.troughs.map((i) => bars[i]?.Date),
+      y: data.troughs.map(troughY),
+      customdata: data.troughs,
+      text: data.troughs.map((i) => pivotHover(waves.get(i))),
+      hoverinfo: "text+x+y",
+      meta: PIVOT_TRACE,
+      type: "scatter",
+      mode: "markers",
+      name: "Troughs",
+      marker: { color: "#ef4444", size: 11, symbol: "triangle-down" },
+    }] : []),
+    ...(data.prediction?.estimated_value && bars.length ? [{
+      x: [bars[bars.length - 1]?.Date],
+      y: [data.prediction.estimated_value],
+      type: "scatter",
+      mode: "markers",
+      name: `Next ${data.prediction.predicted_type_name}`,
+      marker: { color: "#a78bfa", size: 16, symbol: "star", line: { color: "#fff", width: 1.5 } },
+    }] : []),
+    ...(data.support != null ? [levelLine(data, data.support, "Support", "#3b82f6", "dot")] : []),
+    ...(data.resistance != null ? [levelLine(data, data.resistance, "Resistance", "#f87171", "dot")] : []),
+    ...(data.entry != null ? [levelLine(data, data.entry, "Entry", "#c084fc", "dash")] : []),
+  ]
+}
+
+// ohlcv Dates are exchange-local (the backend strips the tz), so regular
+// session hours can be used directly. Holidays still show as gaps.
+// Resampled bars are labelled on midnight-anchored bins, so the first one of
+// the session opens before 09:30 (09:00 for 1h, 08:00 for 2h/4h).
+const SESSION_OPEN_MINUTES = 9 * 60 + 30
+
+export function sessionRangebreaks(interval: string) {
+  const breaks: any[] = [{ bounds: ["sat", "mon"] }]
+  const match = /^(\d+)([mh])$/.exec(interval)
+  if (match) {
+    const minutes = Number(match[1]) * (match[2] === "h" ? 60 : 1)
+    const firstBar = Math.floor(SESSION_OPEN_MINUTES / minutes) * minutes
+    breaks.push({ bounds: [16, firstBar / 60], pattern: "hour" })
+  }
+  return breaks
+}
+
+export type IndicatorId = "ema20" | "ema50" | "sma200" | "bbands" | "vwap" | "rsi" | "macd" | "atr"
+
+export const INDICATORS: Record<IndicatorId, { label: string; panel: boolean }> = {
+  ema20: { label: "EMA 20", panel: false },
+  ema50: { label: "EMA 50", panel: false },
+  sma200: { label: "SMA 200", panel: false },
+  bbands: { label: "Bollinger (20, 2)", panel: false },
+  vwap: { label: "VWAP", panel: false },
+  rsi: { label: "RSI 14", panel: true },
+  macd: { label: "MACD (12, 26, 9)", panel: true },
+  atr: { label: "ATR 14", panel: true },
+}
+
+export interface IndicatorPanel {
+  title: string
+  traces: any[]
+  range?: [number, number]
+}
+
+function line(x: string[], y: (number | null)[], name: string, color: string, extra: object = {}) {
+  return { x, y, type: "scatter", mode: "lines", name, line: { color, width: 1.2 }, ...extra }
+}
+
+export function buildIndicatorTraces(bars: OhlcvBar[], selected: IndicatorId[]) {
+  const x = bars.map((d) => d.Date)
+  const close = bars.map((d) => d.Close)
+  const overlays: any[] = []
+  const panels: IndicatorPanel[] = []
+
+  for (const id of selected) {
+    switch (id) {
+      case "ema20":
+        overlays.push(line(x, ema(close, 20), "EMA 20", "#fbbf24"))
+        break
+      case "ema50":
+        overlays.push(line(x, ema(close, 50), "EMA 50", "#38bdf8"))
+        break
+      case "sma200":
+        overlays.push(line(x, sma(close, 200), "SMA 200", "#e879f9"))
+        break
+      case "bbands": {
+        const bb = bollinger(close)
+        const style = { line: { color: "rgba(148,163,184,0.8)", width: 1 }, legendgroup: "bbands", hoverinfo: "skip" }
+        overlays.push(line(x, bb.upper, "BB Upper", "", { ...style, showlegend: false }))
+        overlays.push(line(x, bb.lower, "Bollinger", "", { ...style, fill: "tonexty", fillcolor: "rgba(148,163,184,0.08)" }))
+        overlays.push(line(x, bb.middle, "BB Mid", "", { ...style, line: { ...style.line, dash: "dot" }, showlegend: false }))
+        break
+      }
+      case "vwap":
+        overlays.push(line(x, vwap(bars), "VWAP", "#f97316", { line: { color: "#f97316", width: 1.5, dash: "dashdot" } }))
+        break
+      case "rsi":
+        panels.push({
+          title: "RSI",
+          range: [0, 100],
+          traces: [
+            line(x, rsi(close), "RSI 14", "#a78bfa"),
+            line([x[0], x[x.length - 1]], [70, 70], "RSI 70", "#555", { line: { color: "#ef4444", width: 1, dash: "dot" }, hoverinfo: "skip", showlegend: false }),
+            line([x[0], x[x.length - 1]], [30, 30], "RSI 30", "#555", { line: { color: "#22c55e", width: 1, dash: "dot" }, hoverinfo: "skip", showlegend: false }),
+          ],
+        })
+        break
+      case "macd": {
+        const m = macd(close)
+        const cross = macdCrossovers(m.line, m.signal)
+        panels.push({
+          title: "MACD",
+          traces: [
+            {
+              x, y: m.histogram, type: "bar", name: "MACD Hist", showlegend: false,
+              marker: { color: m.histogram.map((v) => (v >= 0 ? "rgba(34,197,94,0.6)" : "rgba(239,68,68,0.6)")) },
+            },
+            line(x, m.line, "MACD", "#38bdf8"),
+            line(x, m.signal, "Signal", "#f97316"),
+            {
+              x: cross.up.map((i) => x[i]), y: cross.up.map((i) => m.line[i]),
+              type: "scatter", mode: "markers", name: "Bull cross",
+              marker: { color: "#22c55e", size: 8, symbol: "triangle-up" },
+            },
+            {
+              x: cross.down.map((i) => x[i]), y: cross.down.map((i) => m.line[i]),
+              type: "scatter", mode: "markers", name: "Bear cross",
+              marker: { color: "#ef4444", size: 8, symbol: "triangle-down" },
+            },
+          ],
+        })
+        break
+      }
+      case "atr":
+        panels.push({ title: "ATR", traces: [line(x, atr(bars), "ATR 14", "#facc15")] })
+        break
+    }
+  }
+  return { overlays, panels }
+}
+
+const SUBPLOT_HEIGHT = 0.16
+const SUBPLOT_GAP = 0.03
+
+// Price sits on yaxis, volume on yaxis2 and indicator panels on yaxis3+.
+export function assignPanelAxes(panels: IndicatorPanel[]) {
+  return panels.flatMap((p, i) => p.traces.map((t) => ({ ...t, yaxis: `y${i + 3}` })))
+}
+
+export function buildPriceLayout(interval: string, height: number, panels: IndicatorPanel[] = []): any {
+  const subplots: { title: string; tickformat?: string; range?: [number, number] }[] = [
+    { title: "Vol", tickformat: "~s" },
+    ...panels.map((p) => ({ title: p.title, range: p.range })),
+  ]
+  const step = SUBPLOT_HEIGHT + SUBPLOT_GAP
+  const layout: any = {
+    autosize: true,
+    height,
+    margin: { t: 20, r: 20, l: 50, b: 50 },
+    paper_bgcolor: "#18181b",
+    plot_bgcolor: "#18181b",
+    font: { color: "#fff", size: 11 },
+    xaxis: {
+      title: "Date", tickformat: "%m/%d", showgrid: true, gridcolor: "#333", type: "date",
+      anchor: `y${subplots.length + 1}`, rangeslider: { visible: false }, rangebreaks: sessionRangebreaks(interval),
+    },
+    yaxis: { title: "Price", domain: [subplots.length * step, 1], showgrid: true, gridcolor: "#333" },
+    legend: { orientation: "h", y: -0.18 * (440 / height), font: { size: 10 } },
+  }
+  // Volume sits directly under price; the last panel is at the bottom, where the shared x-axis anchors
+  subplots.forEach((sp, i) => {
+    const bottom = (subplots.length - 1 - i) * step
+    layout[`yaxis${i + 2}`] = {
+      title: sp.title, domain: [bottom, bottom + SUBPLOT_HEIGHT],
+      showgrid: i > 0, gridcolor: "#333", tickformat: sp.tickformat, range: sp.range,
+    }
+  })
+  return layout
+}
@@ -0,0 +1,24 @@
+// Bridge exposed by electron/preload.js when the dashboard runs in the
+// desktop shell; undefined in a normal browser tab.
+
+export interface TraySignal {
+  symbol: string
+  signal: "CALL" | "PUT" | "NO_TRADE"
+  agreeing: string | null
+}
+
+export interface DesktopBridge {
+  setSignal: (payload: TraySignal) => void
+  notify: (payload: { title: string; body: string }) => void
+  backendStatus: () => Promise<"running" | "crashed" | "stopped" | "external">
+}
+
+declare global {
+  interface Window {
+    murliDesktop?: DesktopBridge
+  }
+}
+
+export function getDesktopBridge(): DesktopBridge | undefined {
+  return typeof window === "undefined" ? undefined : window.murliDesktop
+}
@@ -0,0 +1,9 @@
+// Saves generated text as a file through a temporary object URL
+export function downloadFile(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
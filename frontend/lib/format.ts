@@ -0,0 +1,12 @@
+export const rrColor = (rr: number | null | undefined) => {
+  if (rr == null) return "text-neutral-400"
+  if (rr >= 2) return "text-emerald-400"
+  if (rr >= 1) return "text-yellow-400"
+  return "text-rose-400"
+}
+
+export const usd = (v: number) =>
+  v.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 2 })
+
+// P/L style: always signed, with a true minus sign
+export const signedUsd = (v: number, digits = 2) => `${v < 0 ? "−" : "+"}$${Math.abs(v).toFixed(digits)}`
@@ -0,0 +1,183 @@
+// Out-of-sample scoring of the consensus signals the dashboard shows. A
+// CALL/PUT opens a live signal; later /predict responses for the same symbol
+// supply the bars that decide whether tp or sl was touched first. Exit rules
+// mirror backend/backtester.py (sl wins when a bar touches both).
+
+import type { PredictResponse } from "@/lib/api"
+import { DEFAULT_BACKTEST_PARAMS } from "@/lib/backtest"
+import { openDb, promisify, withStore } from "@/lib/idb"
+import { recordSignal, type JournalEntry } from "@/lib/journal"
+import { getMockScenario } from "@/lib/mock-backend"
+
+const STORE = "signals"
+const MAX_HOLDING_BARS = DEFAULT_BACKTEST_PARAMS.max_holding_bars
+
+export type LiveSignalStatus = "open" | "tp" | "sl" | "timeout"
+
+export interface LiveSignal {
+  id: string
+  symbol: string
+  signal: "CALL" | "PUT"
+  openedAt: string
+  // Graded on the finest interval; bars after `asOf` count as forward data
+  interval: string
+  asOf: string
+  entry: number
+  sl: number
+  tp: number
+  confidence: number
+  status: LiveSignalStatus
+  exitPrice: number | null
+  exitTime: string | null
+  barsToExit: number | null
+  rMultiple: number | null
+}
+
+// api.py maps a Peak majority of regimes to CALL and a Trough majority to PUT
+const DIRECTION_REGIME = { CALL: "Peak", PUT: "Trough" } as const
+
+function fromEntry(entry: JournalEntry): LiveSignal | null {
+  if (entry.signal === "NO_TRADE" || entry.entry == null || entry.sl == null || entry.tp == null) return null
+  const ref = entry.intervals.find((iv) => iv.latestTimestamp)
+  if (!ref?.latestTimestamp) return null
+  // Only intervals that voted, and agreed, in that response's consensus
+  const voters = entry.consensusIntervals
+    ? entry.intervals.filter((iv) => entry.consensusIntervals!.includes(iv.interval))
+    : entry.intervals
+  const agreeing = voters.filter((iv) => iv.isValid && iv.regime === DIRECTION_REGIME[entry.signal as "CALL" | "PUT"])
+  const confidence = agreeing.length
+    ? agreeing.reduce((sum, iv) => sum + iv.confidence, 0) / agreeing.length
+    : 0
+  return {
+    id: `${entry.symbol}:${entry.recordedAt}`,
+    symbol: entry.symbol,
+    signal: entry.signal,
+    openedAt: entry.recordedAt,
+    interval: ref.interval,
+    asOf: ref.latestTimestamp,
+    entry: entry.entry,
+    sl: entry.sl,
+    tp: entry.tp,
+    confidence,
+    status: "open",
+    exitPrice: null,
+    exitTime: null,
+    barsToExit: null,
+    rMultiple: null,
+  }
+}
+
+function rMultiple(s: LiveSignal, exitPrice: number) {
+  const long = s.signal === "CALL"
+  const risk = long ? s.entry - s.sl : s.sl - s.entry
+  if (risk <= 0) return null
+  return (long ? exitPrice - s.entry : s.entry - exitPrice) / risk
+}
+
+// latest_timestamp is str(pd.Timestamp) ("YYYY-MM-DD HH:MM:SS") while bar
+// dates are ISO; normalise before comparing them as strings
+export function isoBarTime(ts: string) {
+  return ts.replace(" ", "T")
+}
+
+// Returns the graded copy, or null while neither level has been reached
+export function gradeSignal(s: LiveSignal, data: PredictResponse): LiveSignal | null {
+  const asOf = isoBarTime(s.asOf)
+  const bars = (data.intervals[s.interval]?.ohlcv ?? []).filter((b) => b.Date > asOf)
+  const long = s.signal === "CALL"
+  const close = (status: LiveSignalStatus, price: number, index: number): LiveSignal => ({
+    ...s,
+    status,
+    exitPrice: price,
+    exitTime: bars[index].Date,
+    barsToExit: index + 1,
+    rMultiple: rMultiple(s, price),
+  })
+  for (let i = 0; i < Math.min(bars.length, MAX_HOLDING_BARS); i++) {
+    const { High, Low } = bars[i]
+    if (long ? Low <= s.sl : High >= s.sl) return close("sl", s.sl, i)
+    if (long ? High >= s.tp : Low <= s.tp) return close("tp", s.tp, i)
+  }
+  if (bars.length >= MAX_HOLDING_BARS) return close("timeout", bars[MAX_HOLDING_BARS - 1].Close, MAX_HOLDING_BARS - 1)
+  return null
+}
+
+export async function listLiveSignals(symbol?: string): Promise<LiveSignal[]> {
+  const signals = await withStore<LiveSignal[]>(STORE, "readonly", (s) =>
+    symbol ? s.index("symbol").getAll(IDBKeyRange.only(symbol)) : s.getAll())
+  return signals.sort((a, b) => a.openedAt.localeCompare(b.openedAt))
+}
+
+async function putSignals(signals: LiveSignal[]) {
+  if (!signals.length) return
+  const db = await openDb()
+  const store = db.transaction(STORE, "readwrite").objectStore(STORE)
+  await Promise.all(signals.map((s) => promisify(store.put(s))))
+}
+
+export async function clearLiveSignals() {
+  await withStore(STORE, "readwrite", (s) => s.clear())
+}
+
+// Journals a /predict response, grades the symbol's open signals against its
+// bars, then opens a new signal if the consensus turned into a fresh trade.
+// Synthetic responses from the mock backend are never recorded.
+export async function trackPrediction(symbol: string, data: PredictResponse, consensusIntervals?: string[]) {
+  if (getMockScenario()) return
+  const entry = await recordSignal(symbol, data, consensusIntervals)
+  const open = (await listLiveSignals(symbol.toUpperCase())).filter((s) => s.status === "open")
+  const graded = open.map((s) => gradeSignal(s, data)).filter((s): s is LiveSignal => s != null)
+  const stillOpen = open.filter((s) => !graded.some((g) => g.id === s.id))
+
+  const next = entry ? fromEntry(entry) : null
+  // A consensus that keeps repeating the same direction is one trade, not many
+  const opened = next && !stillOpen.some((s) => s.signal === next.signal) ? [next] : []
+  await putSignals([...graded, ...opened])
+}
+
+export interface CalibrationBucket {
+  label: string
+  count: number
+  avgConfidence: number | null
+  hitRate: number | null
+}
+
+export interface LiveSummary {
+  total: number
+  open: number
+  closed: number
+  hitRate: number | null
+  avgR: number | null
+  avgBarsToExit: number | null
+  buckets: CalibrationBucket[]
+}
+
+const BUCKET_EDGES = [0, 0.6, 0.7, 0.8, 0.9, 1.0001]
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null
+}
+
+export function summarizeLiveSignals(signals: LiveSignal[]): LiveSummary {
+  const closed = signals.filter((s) => s.status !== "open")
+  const hitRateOf = (list: LiveSignal[]) => (list.length ? list.filter((s) => s.status === "tp").length / list.length : null)
+  const buckets = BUCKET_EDGES.slice(0, -1).map((lo, i) => {
+    const hi = BUCKET_EDGES[i + 1]
+    const inBucket = closed.filter((s) => s.confidence >= lo && s.confidence < hi)
+    return {
+      label: lo === 0 ? "< 60%" : `${Math.round(lo * 100)}–${Math.min(Math.round(hi * 100), 100)}%`,
+      count: inBucket.length,
+      avgConfidence: mean(inBucket.map((s) => s.confidence)),
+      hitRate: hitRateOf(inBucket),
+    }
+  })
+  return {
+    total: signals.length,
+    open: signals.length - closed.length,
+    closed: closed.length,
+    hitRate: hitRateOf(closed),
+    avgR: mean(closed.flatMap((s) => (s.rMultiple != null ? [s.rMultiple] : []))),
+    avgBarsToExit: mean(closed.flatMap((s) => (s.barsToExit != null ? [s.barsToExit] : []))),
+    buckets,
+  }
+}
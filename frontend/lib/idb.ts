@@ -0,0 +1,57 @@
+// Minimal promise wrapper over IndexedDB. Every object store the app uses is
+// created here so the schema version lives in one place.
+
+const DB_NAME = "murli"
+const DB_VERSION = 3
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains("journal")) {
+    const store = db.createObjectStore("journal", { keyPath: "id", autoIncrement: true })
+    store.createIndex("symbol", "symbol")
+    store.createIndex("recordedAt", "recordedAt")
+  }
+  if (!db.objectStoreNames.contains("signals")) {
+    const store = db.createObjectStore("signals", { keyPath: "id" })
+    store.createIndex("symbol", "symbol")
+  }
+  if (!db.objectStoreNames.contains("sessions")) {
+    db.createObjectStore("sessions", { keyPath: "id" })
+  }
+  if (!db.objectStoreNames.contains("frames")) {
+    db.createObjectStore("frames", { keyPath: ["sessionId", "seq"] })
+  }
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available"))
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => upgrade(req.result)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return promisify(fn(db.transaction(name, mode).objectStore(name)))
+}
@@ -0,0 +1,132 @@
+// Technical indicators over ohlcv arrays. Each function returns a series
+// aligned with its input; bars without enough history are null.
+
+import type { OhlcvBar } from "@/lib/api"
+
+export type Series = (number | null)[]
+
+export function sma(values: number[], period: number): Series {
+  const out: Series = []
+  let sum = 0
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]
+    if (i >= period) sum -= values[i - period]
+    out.push(i >= period - 1 ? sum / period : null)
+  }
+  return out
+}
+
+// Matches pandas' ewm(span=period, adjust=False): seeded with the first value
+export function ema(values: number[], period: number): Series {
+  const alpha = 2 / (period + 1)
+  const out: Series = []
+  let prev: number | null = null
+  for (const v of values) {
+    prev = prev == null ? v : alpha * v + (1 - alpha) * prev
+    out.push(prev)
+  }
+  return out
+}
+
+export function bollinger(values: number[], period = 20, mult = 2) {
+  const middle = sma(values, period)
+  const upper: Series = []
+  const lower: Series = []
+  for (let i = 0; i < values.length; i++) {
+    const m = middle[i]
+    if (m == null) {
+      upper.push(null)
+      lower.push(null)
+      continue
+    }
+    let variance = 0
+    for (let j = i - period + 1; j <= i; j++) variance += (values[j] - m) ** 2
+    const sd = Math.sqrt(variance / period)
+    upper.push(m + mult * sd)
+    lower.push(m - mult * sd)
+  }
+  return { middle, upper, lower }
+}
+
+// Session-anchored VWAP: resets at the first bar of each calendar day
+export function vwap(bars: OhlcvBar[]): Series {
+  const out: Series = []
+  let day = ""
+  let pv = 0
+  let vol = 0
+  for (const b of bars) {
+    const d = b.Date.slice(0, 10)
+    if (d !== day) {
+      day = d
+      pv = 0
+      vol = 0
+    }
+    const v = b.Volume ?? 0
+    pv += ((b.High + b.Low + b.Close) / 3) * v
+    vol += v
+    out.push(vol > 0 ? pv / vol : null)
+  }
+  return out
+}
+
+// Wilder's RSI
+export function rsi(values: number[], period = 14): Series {
+  const out: Series = values.length ? [null] : []
+  let avgGain = 0
+  let avgLoss = 0
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1]
+    const gain = Math.max(change, 0)
+    const loss = Math.max(-change, 0)
+    if (i <= period) {
+      avgGain += gain / period
+      avgLoss += loss / period
+      out.push(i === period ? (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss)) : null)
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period
+      avgLoss = (avgLoss * (period - 1) + loss) / period
+      out.push(avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss))
+    }
+  }
+  return out
+}
+
+// Matches the ATR in backend/api.py: simple rolling mean of true range, min_periods=1
+export function atr(bars: OhlcvBar[], period = 14): Series {
+  const tr = bars.map((b, i) => {
+    if (i === 0) return b.High - b.Low
+    const prevClose = bars[i - 1].Close
+    return Math.max(b.High - b.Low, Math.abs(b.High - prevClose), Math.abs(b.Low - prevClose))
+  })
+  const out: Series = []
+  let sum = 0
+  for (let i = 0; i < tr.length; i++) {
+    sum += tr[i]
+    if (i >= period) sum -= tr[i - period]
+    out.push(sum / Math.min(i + 1, period))
+  }
+  return out
+}
+
+// Matches compute_macd in backend/api.py
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9) {
+  const fastEma = ema(values, fast)
+  const slowEma = ema(values, slow)
+  const line = values.map((_, i) => (fastEma[i] as number) - (slowEma[i] as number))
+  const signal = ema(line, signalPeriod)
+  const histogram = line.map((v, i) => v - (signal[i] as number))
+  return { line, signal, histogram }
+}
+
+// Indices where the MACD line crosses its signal line
+export function macdCrossovers(line: number[], signal: Series) {
+  const up: number[] = []
+  const down: number[] = []
+  for (let i = 1; i < line.length; i++) {
+    const prev = line[i - 1] - (signal[i - 1] ?? 0)
+    const cur = line[i] - (signal[i] ?? 0)
+    if (prev < 0 && cur >= 0) up.push(i)
+    else if (prev > 0 && cur <= 0) down.push(i)
+  }
+  return { up, down }
+}
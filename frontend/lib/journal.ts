@@ -0,0 +1,159 @@
+// Signal journal: one snapshot of the consensus and every interval's
+// prediction per /predict response, kept in IndexedDB for RETENTION_DAYS.
+
+import type { PredictResponse } from "@/lib/api"
+import { openDb, promisify, withStore } from "@/lib/idb"
+
+const STORE = "journal"
+const RETENTION_DAYS = 30
+
+export type JournalSignal = "CALL" | "PUT" | "NO_TRADE"
+
+export interface IntervalSnapshot {
+  interval: string
+  prediction: string | null
+  confidence: number
+  regime: string | null
+  entry: number | null
+  exitTarget: number | null
+  support: number | null
+  resistance: number | null
+  isValid: boolean
+  latestPrice: number | null
+  latestTimestamp: string | null
+}
+
+export interface JournalEntry {
+  id?: number
+  symbol: string
+  recordedAt: string
+  signal: JournalSignal
+  reason: string | null
+  agreeing: string | null
+  price: number | null
+  entry: number | null
+  sl: number | null
+  tp: number | null
+  strike: number | null
+  riskReward: number | null
+  intervals: IntervalSnapshot[]
+  // Intervals the consensus voted over; absent on entries recorded before it was kept
+  consensusIntervals?: string[]
+}
+
+export function snapshotFrom(
+  symbol: string,
+  data: PredictResponse,
+  consensusIntervals?: string[],
+  at = new Date()
+): JournalEntry {
+  const { consensus } = data
+  const intervals = Object.entries(data.intervals).map(([interval, r]) => ({
+    interval,
+    prediction: r.prediction.predicted_type_name,
+    confidence: r.prediction.confidence,
+    regime: r.prediction.regime ?? null,
+    entry: r.entry,
+    exitTarget: r.exit_target,
+    support: r.support,
+    resistance: r.resistance,
+    isValid: r.is_valid,
+    latestPrice: r.latest_price,
+    latestTimestamp: r.latest_timestamp,
+  }))
+  return {
+    symbol: symbol.toUpperCase(),
+    recordedAt: at.toISOString(),
+    signal: consensus.signal,
+    reason: consensus.is_trade ? null : consensus.reason,
+    agreeing: consensus.is_trade ? consensus.agreeing : null,
+    price: intervals[0]?.latestPrice ?? null,
+    entry: consensus.is_trade ? consensus.avg_entry : null,
+    sl: consensus.is_trade ? consensus.sl : null,
+    tp: consensus.is_trade ? consensus.tp : null,
+    strike: consensus.is_trade ? consensus.strike : null,
+    riskReward: consensus.is_trade ? consensus.risk_reward : null,
+    intervals,
+    consensusIntervals,
+  }
+}
+
+// Identical payloads (the dashboard and the watchlist polling the same symbol,
+// or a manual re-run between bars) are not worth a second row.
+function sameSnapshot(a: JournalEntry, b: JournalEntry) {
+  return a.signal === b.signal
+    && a.price === b.price
+    && a.entry === b.entry
+    && a.sl === b.sl
+    && a.tp === b.tp
+    && JSON.stringify(a.intervals) === JSON.stringify(b.intervals)
+    && String(a.consensusIntervals) === String(b.consensusIntervals)
+}
+
+async function latestFor(symbol: string): Promise<JournalEntry | undefined> {
+  const db = await openDb()
+  const index = db.transaction(STORE, "readonly").objectStore(STORE).index("symbol")
+  const cursor = await promisify(index.openCursor(IDBKeyRange.only(symbol), "prev"))
+  return cursor?.value
+}
+
+async function prune() {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 86_400_000).toISOString()
+  const db = await openDb()
+  const index = db.transaction(STORE, "readwrite").objectStore(STORE).index("recordedAt")
+  const req = index.openCursor(IDBKeyRange.upperBound(cutoff, true))
+  await new Promise<void>((resolve, reject) => {
+    req.onsuccess = () => {
+      const cursor = req.result
+      if (!cursor) return resolve()
+      cursor.delete()
+      cursor.continue()
+    }
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export async function recordSignal(
+  symbol: string,
+  data: PredictResponse,
+  consensusIntervals?: string[]
+): Promise<JournalEntry | null> {
+  const entry = snapshotFrom(symbol, data, consensusIntervals)
+  const previous = await latestFor(entry.symbol)
+  if (previous && sameSnapshot(previous, entry)) return null
+  entry.id = await withStore(STORE, "readwrite", (s) => s.add(entry)) as number
+  await prune()
+  return entry
+}
+
+export interface JournalQuery {
+  symbol?: string
+  from?: Date
+  to?: Date
+}
+
+// Oldest first, so callers can diff each entry against the one before it
+export async function listJournal({ symbol, from, to }: JournalQuery = {}): Promise<JournalEntry[]> {
+  const range = from || to
+    ? IDBKeyRange.bound(from?.toISOString() ?? "", to?.toISOString() ?? "\uffff")
+    : undefined
+  const entries = await withStore<JournalEntry[]>(STORE, "readonly", (s) => s.index("recordedAt").getAll(range))
+  return symbol ? entries.filter((e) => e.symbol === symbol) : entries
+}
+
+export async function clearJournal() {
+  await withStore(STORE, "readwrite", (s) => s.clear())
+}
+
+// Human-readable changes from `prev` to `cur` for the same symbol
+export function diffEntries(prev: JournalEntry, cur: JournalEntry): string[] {
+  const changes: string[] = []
+  if (prev.signal !== cur.signal) changes.push(`Consensus ${prev.signal.replace("_", " ")} → ${cur.signal.replace("_", " ")}`)
+  for (const iv of cur.intervals) {
+    const before = prev.intervals.find((p) => p.interval === iv.interval)
+    if (!before) continue
+    if (before.prediction !== iv.prediction) changes.push(`${iv.interval}: ${before.prediction ?? "—"} → ${iv.prediction ?? "—"}`)
+    if (before.regime && iv.regime && before.regime !== iv.regime) changes.push(`${iv.interval} regime: ${before.regime} → ${iv.regime}`)
+  }
+  return changes
+}
@@ -0,0 +1,220 @@
+// NYSE calendar: regular holidays (with weekend observance), 1pm early
+// closes, pre-market and after-hours sessions. Everything is computed in
+// America/New_York wall time, so DST transitions need no special casing.
+
+export type SessionPhase = "closed" | "pre" | "regular" | "post"
+
+export interface DaySchedule {
+  // ET calendar date, YYYY-MM-DD
+  date: string
+  isTradingDay: boolean
+  // Holiday name, or "Weekend"
+  closedFor: string | null
+  earlyClose: boolean
+  preOpen: Date
+  open: Date
+  close: Date
+  postClose: Date
+}
+
+export interface MarketStatus {
+  phase: SessionPhase
+  today: DaySchedule
+  next: { phase: SessionPhase; at: Date }
+  // Why the market is shut when phase is "closed" on a non-trading day
+  closedFor: string | null
+}
+
+const ZONE = "America/New_York"
+
+const PRE_OPEN_MIN = 4 * 60
+const OPEN_MIN = 9 * 60 + 30
+const CLOSE_MIN = 16 * 60
+const EARLY_CLOSE_MIN = 13 * 60
+const POST_CLOSE_MIN = 20 * 60
+const EARLY_POST_CLOSE_MIN = 17 * 60
+
+// Keep polling a few minutes either side of the bell so the opening and closing bars land
+const REFRESH_BUFFER_MIN = 5
+
+// One-off closures the rules below can't derive (national days of mourning etc.)
+const SPECIAL_CLOSURES: Record<string, string> = {
+  "2018-12-05": "National Day of Mourning",
+  "2025-01-09": "National Day of Mourning",
+}
+
+const DAY_MS = 86_400_000
+
+const etFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+})
+
+const etFields = (at: Date) => Object.fromEntries(etFormat.formatToParts(at).map(({ type, value }) => [type, value]))
+
+function etParts(at: Date) {
+  const p = etFields(at)
+  return {
+    date: `${p.year}-${p.month}-${p.day}`,
+    minutes: Number(p.hour) * 60 + Number(p.minute) + Number(p.second) / 60,
+  }
+}
+
+// ET wall-clock time as a naive ISO string, the way the backend's bars are stamped
+export function formatEt(at: Date) {
+  const p = etFields(at)
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}:${p.second}`
+}
+
+// Instant at which the ET wall clock reads `minutes` past midnight on `date`
+function etInstant(date: string, minutes: number) {
+  const [y, m, d] = date.split("-").map(Number)
+  const wall = Date.UTC(y, m - 1, d, 0, minutes)
+  // Start from EST (UTC-5), then correct by however far the wall clock is off
+  let guess = wall + 5 * 3_600_000
+  for (let i = 0; i < 2; i++) {
+    const { date: gotDate, minutes: gotMin } = etParts(new Date(guess))
+    const [gy, gm, gd] = gotDate.split("-").map(Number)
+    const got = Date.UTC(gy, gm - 1, gd, 0, 0) + gotMin * 60_000
+    guess += wall - got
+  }
+  return new Date(guess)
+}
+
+const iso = (y: number, m: number, d: number) => new Date(Date.UTC(y, m - 1, d)).toISOString().slice(0, 10)
+const weekday = (date: string) => new Date(`${date}T12:00:00Z`).getUTCDay()
+const addDays = (date: string, days: number) => new Date(new Date(`${date}T12:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+
+// nth (1-based) weekday of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, dow: number, n: number) {
+  if (n > 0) {
+    const first = weekday(iso(year, month, 1))
+    return iso(year, month, 1 + ((dow - first + 7) % 7) + (n - 1) * 7)
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const last = weekday(iso(year, month, lastDay))
+  return iso(year, month, lastDay - ((last - dow + 7) % 7))
+}
+
+// Saturday holidays move to Friday, Sunday holidays to Monday
+function observed(date: string) {
+  const dow = weekday(date)
+  return dow === 6 ? addDays(date, -1) : dow === 0 ? addDays(date, 1) : date
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number) {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return iso(year, month, day)
+}
+
+const holidayCache = new Map<number, Record<string, string>>()
+
+export function nyseHolidays(year: number): Record<string, string> {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+  const holidays: Record<string, string> = {
+    [nthWeekday(year, 1, 1, 3)]: "Martin Luther King Jr. Day",
+    [nthWeekday(year, 2, 1, 3)]: "Washington's Birthday",
+    [addDays(easterSunday(year), -2)]: "Good Friday",
+    [nthWeekday(year, 5, 1, -1)]: "Memorial Day",
+    [observed(iso(year, 7, 4))]: "Independence Day",
+    [nthWeekday(year, 9, 1, 1)]: "Labor Day",
+    [nthWeekday(year, 11, 4, 4)]: "Thanksgiving Day",
+    [observed(iso(year, 12, 25))]: "Christmas Day",
+  }
+  // NYSE does not close on Friday Dec 31 when New Year's Day falls on a Saturday
+  const newYear = iso(year, 1, 1)
+  if (weekday(newYear) !== 6) holidays[observed(newYear)] = "New Year's Day"
+  if (year >= 2022) holidays[observed(iso(year, 6, 19))] = "Juneteenth"
+  for (const [date, name] of Object.entries(SPECIAL_CLOSURES)) {
+    if (date.startsWith(`${year}-`)) holidays[date] = name
+  }
+  holidayCache.set(year, holidays)
+  return holidays
+}
+
+function isEarlyClose(date: string) {
+  const [year, month, day] = date.split("-").map(Number)
+  if (month === 7 && day === 3) return weekday(date) !== 0 && weekday(date) !== 6 && !nyseHolidays(year)[date]
+  if (month === 12 && day === 24) return weekday(date) !== 0 && weekday(date) !== 6 && !nyseHolidays(year)[date]
+  return date === addDays(nthWeekday(year, 11, 4, 4), 1)
+}
+
+export function scheduleFor(date: string): DaySchedule {
+  const dow = weekday(date)
+  const holiday = nyseHolidays(Number(date.slice(0, 4)))[date] ?? null
+  const closedFor = dow === 0 || dow === 6 ? "Weekend" : holiday
+  const earlyClose = !closedFor && isEarlyClose(date)
+  return {
+    date,
+    isTradingDay: !closedFor,
+    closedFor,
+    earlyClose,
+    preOpen: etInstant(date, PRE_OPEN_MIN),
+    open: etInstant(date, OPEN_MIN),
+    close: etInstant(date, earlyClose ? EARLY_CLOSE_MIN : CLOSE_MIN),
+    postClose: etInstant(date, earlyClose ? EARLY_POST_CLOSE_MIN : POST_CLOSE_MIN),
+  }
+}
+
+export function etToday(now = new Date()) {
+  return etParts(now).date
+}
+
+export function nextTradingDay(after: string): DaySchedule {
+  let date = addDays(after, 1)
+  // The longest run of closed days is a holiday weekend plus a special closure
+  for (let i = 0; i < 10; i++, date = addDays(date, 1)) {
+    const schedule = scheduleFor(date)
+    if (schedule.isTradingDay) return schedule
+  }
+  return scheduleFor(date)
+}
+
+export function getMarketStatus(now = new Date()): MarketStatus {
+  const today = scheduleFor(etToday(now))
+  const t = now.getTime()
+  if (today.isTradingDay) {
+    if (t < today.preOpen.getTime()) return { phase: "closed", today, next: { phase: "pre", at: today.preOpen }, closedFor: null }
+    if (t < today.open.getTime()) return { phase: "pre", today, next: { phase: "regular", at: today.open }, closedFor: null }
+    if (t < today.close.getTime()) return { phase: "regular", today, next: { phase: "post", at: today.close }, closedFor: null }
+    if (t < today.postClose.getTime()) return { phase: "post", today, next: { phase: "closed", at: today.postClose }, closedFor: null }
+  }
+  const next = nextTradingDay(today.date)
+  return { phase: "closed", today, next: { phase: "pre", at: next.preOpen }, closedFor: today.closedFor }
+}
+
+// The next regular-session open strictly after `now`
+export function nextOpen(now = new Date()) {
+  const today = scheduleFor(etToday(now))
+  return today.isTradingDay && now.getTime() < today.open.getTime() ? today.open : nextTradingDay(today.date).open
+}
+
+// Auto-refresh runs through the regular session, plus a few minutes either side
+export function shouldAutoRefresh(now = new Date()) {
+  const today = scheduleFor(etToday(now))
+  if (!today.isTradingDay) return false
+  const buffer = REFRESH_BUFFER_MIN * 60_000
+  const t = now.getTime()
+  return t >= today.open.getTime() - buffer && t <= today.close.getTime() + buffer
+}
@@ -0,0 +1,574 @@
+// In-browser stand-in for backend/api.py, for offline development and demos.
+// Enable it with NEXT_PUBLIC_MOCK_BACKEND=<scenario> (see `npm run dev:mock`)
+// or at runtime with ?mock=<scenario>, which sticks until ?mock=off. Production
+// builds ignore both unless they were built with the env flag, and nothing
+// served by the mock is journaled, forward-tested or paper traded.
+//
+// Bars come from a synthetic price curve that is a pure function of symbol,
+// scenario and bar time, laid out on real NYSE sessions. Every interval
+// samples the same curve, so timeframes agree with each other, and a refresh
+// only extends the series instead of redrawing it.
+
+import type { BacktestRequest, OhlcvBar, PredictRequest } from "@/lib/api"
+import { etToday, formatEt, scheduleFor } from "@/lib/market-hours"
+import { readStored, writeStored } from "@/lib/storage"
+
+export type MockScenario = "trending" | "ranging" | "no_trade" | "missing_fields" | "error"
+
+export const MOCK_SCENARIOS: Record<MockScenario, string> = {
+  trending: "Steady uptrend; every timeframe calls a Peak, so consensus is CALL",
+  ranging: "Oscillates around a fixed mid; timeframes fade the move back to it",
+  no_trade: "Timeframes disagree or miss the confidence threshold",
+  missing_fields: "Drops fields the client requires, to exercise schema errors",
+  error: "Every request fails with HTTP 500",
+}
+
+export interface MockResponse {
+  status: number
+  data: unknown
+}
+
+const STORAGE_KEY = "murli.mockBackend"
+const QUERY_PARAM = "mock"
+const ENV_SCENARIO = process.env.NEXT_PUBLIC_MOCK_BACKEND
+
+// Whether this build may serve synthetic data at all
+export const MOCK_AVAILABLE = process.env.NODE_ENV !== "production" || !!ENV_SCENARIO
+
+const LATENCY_MS = 250
+const MINUTE_MS = 60_000
+const DAY_MS = 86_400_000
+// Noise is drawn once per 15-minute slot so every interval sees the same path
+const SLOT_MS = 15 * MINUTE_MS
+const CHART_WINDOW_DAYS = 30
+const ATR_WINDOW = 14
+const PIVOT_ORDER = 5
+const CONFIDENCE_THRESHOLD = 0.6
+const MIN_RR_RATIO = 1.5
+const LOW_VOL_THRESHOLDS: Record<string, number> = { "1h": 2, "4h": 5 }
+
+const INTERVAL_MINUTES: Record<string, number> = {
+  "15m": 15,
+  "30m": 30,
+  "1h": 60,
+  "2h": 120,
+  "4h": 240,
+  "1d": 1440,
+}
+
+interface CurveProfile {
+  // Log-drift per calendar day
+  drift: number
+  // Amplitudes of the intraday and multi-day swings
+  fast: number
+  slow: number
+  noise: number
+}
+
+const PROFILES: Record<MockScenario, CurveProfile> = {
+  trending: { drift: 0.004, fast: 0.004, slow: 0.01, noise: 0.0015 },
+  ranging: { drift: 0, fast: 0.006, slow: 0.025, noise: 0.0015 },
+  no_trade: { drift: 0.001, fast: 0.008, slow: 0.012, noise: 0.003 },
+  missing_fields: { drift: 0.004, fast: 0.004, slow: 0.01, noise: 0.0015 },
+  error: { drift: 0, fast: 0, slow: 0, noise: 0 },
+}
+
+const FAST_PERIOD_MS = 7.3 * 3_600_000
+const SLOW_PERIOD_MS = 2.9 * DAY_MS
+
+const isScenario = (value: unknown): value is MockScenario =>
+  typeof value === "string" && value in MOCK_SCENARIOS
+
+let queryApplied = false
+
+// A ?mock= parameter is stored on first use, so it sticks after navigation;
+// the stored choice wins over the env default
+export function getMockScenario(): MockScenario | null {
+  if (!MOCK_AVAILABLE) return null
+  if (typeof window !== "undefined") {
+    if (!queryApplied) {
+      queryApplied = true
+      const param = new URLSearchParams(window.location.search).get(QUERY_PARAM)
+      if (param === "off") setMockScenario(null)
+      else if (isScenario(param)) setMockScenario(param)
+    }
+    const stored = readStored<string | null>(STORAGE_KEY, null)
+    if (stored === "off") return null
+    if (isScenario(stored)) return stored
+  }
+  return isScenario(ENV_SCENARIO) ? ENV_SCENARIO : null
+}
+
+// null turns the mock off, even when the env flag enables it
+export function setMockScenario(scenario: MockScenario | null) {
+  writeStored(STORAGE_KEY, scenario ?? "off")
+}
+
+export async function mockRequest(endpoint: string, body: unknown, scenario: MockScenario): Promise<MockResponse> {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS))
+  if (scenario === "error") return { status: 500, data: { detail: "Mock backend: simulated data vendor failure" } }
+  if (endpoint === "/health") return { status: 200, data: { status: "ok" } }
+  if (endpoint === "/predict") return { status: 200, data: mockPredict(body as PredictRequest, scenario) }
+  if (endpoint === "/backtest") return { status: 200, data: mockBacktest(body as BacktestRequest, scenario) }
+  return { status: 404, data: { detail: "Not Found" } }
+}
+
+// ---------------------------------------------------------------------------
+// Synthetic OHLCV
+// ---------------------------------------------------------------------------
+
+// FNV-1a, so seeds are stable across sessions and browsers
+function hash(text: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Uniform in [-1, 1)
+const noise = (seed: number, n: number) => (hash(`${seed}:${n}`) / 0x80000000) - 1
+
+function periodDays(period: string) {
+  const match = /^(\d+)(d|wk|mo|y)$/.exec(period)
+  if (!match) return 365
+  const n = Number(match[1])
+  return match[2] === "d" ? n : match[2] === "wk" ? n * 7 : match[2] === "mo" ? n * 31 : n * 365
+}
+
+// Bar open times over the last `period`, on trading days only, up to `now`
+function barTimes(interval: string, period: string, now: Date) {
+  const step = (INTERVAL_MINUTES[interval] ?? 60) * MINUTE_MS
+  const today = etToday(now)
+  const times: Date[] = []
+  for (let back = periodDays(period); back >= 0; back--) {
+    const day = scheduleFor(etToday(new Date(new Date(`${today}T12:00:00Z`).getTime() - back * DAY_MS)))
+    if (!day.isTradingDay) continue
+    if (interval === "1d") {
+      if (day.open <= now) times.push(new Date(`${day.date}T00:00:00Z`))
+      continue
+    }
+    for (let t = day.open.getTime(); t < day.close.getTime() && t <= now.getTime(); t += step) {
+      times.push(new Date(t))
+    }
+  }
+  return times
+}
+
+const curveSeed = (symbol: string, scenario: MockScenario) => hash(`${symbol.toUpperCase()}|${scenario}`)
+// Where the curve sits before drift; also the mid line ranging fades toward
+const basePrice = (seed: number) => 40 + (seed % 460)
+
+function generateBars(symbol: string, interval: string, period: string, scenario: MockScenario, now: Date): OhlcvBar[] {
+  const seed = curveSeed(symbol, scenario)
+  const base = basePrice(seed)
+  const { drift, fast, slow, noise: jitter } = PROFILES[scenario]
+  const phase = (seed % 1000) / 1000
+  const price = (t: number) => {
+    const slot = Math.floor(t / SLOT_MS)
+    const log = drift * (t - now.getTime()) / DAY_MS
+      + fast * Math.sin(2 * Math.PI * (t / FAST_PERIOD_MS + phase))
+      + slow * Math.sin(2 * Math.PI * (t / SLOW_PERIOD_MS + phase))
+      + jitter * noise(seed, slot)
+    return base * Math.exp(log)
+  }
+  const step = (INTERVAL_MINUTES[interval] ?? 60) * MINUTE_MS
+  const round = (v: number) => Math.round(v * 100) / 100
+
+  return barTimes(interval, period, now).map((at) => {
+    // Daily bars are stamped at midnight but trade through the session
+    const day = interval === "1d" ? scheduleFor(at.toISOString().slice(0, 10)) : null
+    const start = day ? day.open.getTime() : at.getTime()
+    const end = Math.min(day ? day.close.getTime() : start + step, now.getTime())
+    const open = price(start)
+    const close = price(end)
+    const slot = Math.floor(start / SLOT_MS)
+    const wick = 1 + Math.abs(noise(seed, slot * 7 + 3)) * jitter * 2
+    return {
+      Date: interval === "1d" ? at.toISOString().slice(0, 19) : formatEt(at),
+      Open: round(open),
+      High: round(Math.max(open, close) * wick),
+      Low: round(Math.min(open, close) / wick),
+      Close: round(close),
+      Volume: Math.round(1_000_000 * (1 + 0.5 * noise(seed, slot * 7 + 5))),
+    }
+  })
+}
+
+// Rolling mean of true range, matching the ATR in backend/api.py
+function atrSeries(bars: OhlcvBar[]) {
+  const tr = bars.map((b, i) => {
+    const prev = i ? bars[i - 1].Close : null
+    return prev === null ? b.High - b.Low : Math.max(b.High - b.Low, Math.abs(b.High - prev), Math.abs(b.Low - prev))
+  })
+  return tr.map((_, i) => {
+    const window = tr.slice(Math.max(0, i - ATR_WINDOW + 1), i + 1)
+    return window.reduce((a, b) => a + b, 0) / window.length
+  })
+}
+
+// Strict local extrema over ±PIVOT_ORDER bars, like argrelextrema
+function findPivots(bars: OhlcvBar[]) {
+  const peaks: number[] = []
+  const troughs: number[] = []
+  for (let i = PIVOT_ORDER; i < bars.length - PIVOT_ORDER; i++) {
+    const around = [...bars.slice(i - PIVOT_ORDER, i), ...bars.slice(i + 1, i + PIVOT_ORDER + 1)]
+    if (around.every((b) => bars[i].High > b.High)) peaks.push(i)
+    else if (around.every((b) => bars[i].Low < b.Low)) troughs.push(i)
+  }
+  return { peaks, troughs }
+}
+
+const orderPivots = (peaks: number[], troughs: number[]) =>
+  [...peaks.map((i) => ({ i, type: "Peak" as const })), ...troughs.map((i) => ({ i, type: "Trough" as const }))]
+    .sort((a, b) => a.i - b.i)
+
+// Per-pivot wave metrics for the window, scored like calculate_pivot_confidence
+// in backend/wave_detector.py: 50% height, 30% slope, 20% volume, each
+// relative to the largest wave in the series
+function waveDetails(bars: OhlcvBar[], peaks: number[], troughs: number[], start: number) {
+  const pivots = orderPivots(peaks, troughs)
+  const waves = pivots.map(({ i }, k) => {
+    if (!k) return { height: 0, duration: 0, slope: 0, volume: 0 }
+    const prev = pivots[k - 1].i
+    const duration = i - prev
+    return {
+      height: Math.abs(bars[i].Close - bars[prev].Close),
+      duration,
+      slope: (bars[i].Close - bars[prev].Close) / duration,
+      volume: bars.slice(prev, i + 1).reduce((sum, b) => sum + (b.Volume ?? 0), 0),
+    }
+  })
+  const max = (pick: (w: (typeof waves)[number]) => number) => Math.max(...waves.slice(1).map(pick), 0) || 1
+  const maxHeight = max((w) => w.height)
+  const maxSlope = max((w) => Math.abs(w.slope))
+  const maxVolume = max((w) => w.volume)
+  const scores = waves.map((w) => 0.5 * w.height / maxHeight + 0.3 * Math.abs(w.slope) / maxSlope + 0.2 * w.volume / maxVolume)
+  if (scores.length > 1) scores[0] = scores.slice(1).reduce((a, b) => a + b, 0) / (scores.length - 1)
+
+  return pivots.flatMap(({ i, type }, k) => {
+    if (i < start) return []
+    const prev = k ? pivots[k - 1].i : null
+    const prevClose = prev !== null ? bars[prev].Close : null
+    return [{
+      index: i - start,
+      time: bars[i].Date,
+      type,
+      value: bars[i].Close,
+      height: k ? waves[k].height : null,
+      duration_bars: k ? waves[k].duration : null,
+      pct_move: prevClose ? ((bars[i].Close - prevClose) / prevClose) * 100 : null,
+      slope: k ? waves[k].slope : null,
+      volume: k ? waves[k].volume : null,
+      confidence: scores[k],
+      prev_time: prev !== null ? bars[prev].Date : null,
+    }]
+  })
+}
+
+// Python's str() of a naive pandas Timestamp
+const pandasTime = (date: string) => date.replace("T", " ")
+
+// ---------------------------------------------------------------------------
+// /predict
+// ---------------------------------------------------------------------------
+
+function mockInterval(req: PredictRequest, interval: string, position: number, scenario: MockScenario, now: Date) {
+  const bars = generateBars(req.symbol, interval, req.period_map[interval] ?? "30d", scenario, now)
+  const last = bars[bars.length - 1]
+  const cutoff = last ? new Date(new Date(`${last.Date}Z`).getTime() - CHART_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 19) : ""
+  const window = bars.filter((b) => b.Date >= cutoff)
+  const atr = atrSeries(bars).at(-1) ?? null
+  const latest = last?.Close ?? null
+  const recent = window.slice(-20)
+  const support = recent.length ? Math.min(...recent.map((b) => b.Low)) : null
+  const resistance = recent.length ? Math.max(...recent.map((b) => b.High)) : null
+  const seed = hash(`${req.symbol.toUpperCase()}|${scenario}|${interval}`)
+
+  let type: "Peak" | "Trough"
+  let confidence: number
+  let target: number | null = null
+  if (latest === null || atr === null) {
+    type = "Peak"
+    confidence = 0
+  } else if (scenario === "ranging") {
+    // Fade back toward the curve's mid line
+    const mid = basePrice(curveSeed(req.symbol, scenario))
+    type = latest > mid ? "Trough" : "Peak"
+    confidence = 0.68 + 0.04 * noise(seed, 1)
+    target = type === "Peak" ? Math.max(mid, latest + atr) : Math.min(mid, latest - atr)
+  } else if (scenario === "no_trade") {
+    // Alternate directions, and keep the odd one out under the threshold
+    type = position % 2 ? "Trough" : "Peak"
+    confidence = position % 3 === 2 ? 0.52 : 0.62 + 0.03 * noise(seed, 1)
+    target = type === "Peak" ? latest + 1.5 * atr : latest - 1.5 * atr
+  } else {
+    type = "Peak"
+    confidence = 0.74 + 0.05 * noise(seed, 1)
+    target = latest + (4 + position) * atr
+  }
+
+  const reached = confidence >= CONFIDENCE_THRESHOLD
+  const entry = reached ? latest : null
+  const exitTarget = target ?? 0
+  let isValid = false
+  if (entry !== null && support !== null && resistance !== null && support <= entry && entry <= resistance) {
+    isValid = type === "Peak" ? exitTarget >= entry : exitTarget <= entry
+  }
+  let rr: number | null = null
+  if (isValid && entry !== null && support !== null && resistance !== null) {
+    const risk = type === "Peak" ? entry - support : resistance - entry
+    const reward = Math.abs(exitTarget - entry)
+    rr = risk && reward ? reward / risk : null
+  }
+
+  const offset = 4 + Math.round(3 * Math.abs(noise(seed, 2))) + position * 2
+  const projected = last ? new Date(etWallToInstant(last.Date) + offset * (INTERVAL_MINUTES[interval] ?? 60) * MINUTE_MS) : null
+  const start = bars.length - window.length
+  const { peaks, troughs } = findPivots(bars)
+  const closes = bars.map((b) => b.Close)
+  const trendUp = closes.length > 26 && closes[closes.length - 1] > closes[closes.length - 27]
+
+  return {
+    regime: reached ? type : null,
+    result: {
+      prediction: {
+        predicted_type: type === "Peak" ? 1 : 0,
+        predicted_type_name: reached ? type : null,
+        confidence: Math.round(confidence * 1000) / 1000,
+        estimated_value: target,
+        estimated_index_offset: offset,
+        method: "mock_synthetic",
+        regime: reached ? type : null,
+      },
+      entry,
+      exit_target: exitTarget,
+      support,
+      resistance,
+      risk_reward: rr,
+      is_valid: isValid,
+      ohlcv: window,
+      peaks: peaks.filter((i) => i >= start).map((i) => i - start),
+      troughs: troughs.filter((i) => i >= start).map((i) => i - start),
+      waves: waveDetails(bars, peaks, troughs, start),
+      latest_price: latest,
+      latest_timestamp: last ? pandasTime(last.Date) : null,
+      projected_time_et: projected ? formatEt(projected).slice(11, 16) : null,
+      projected_at: projected ? projected.toISOString() : null,
+      atr,
+      atr_ratio: atr && latest ? atr / latest : null,
+      low_volatility: atr !== null && atr < (LOW_VOL_THRESHOLDS[interval] ?? 2),
+      macd_tick: type === "Peak" ? trendUp : !trendUp,
+    } as Record<string, unknown>,
+  }
+}
+
+// Bars are stamped in ET wall time; find the instant that wall time names
+function etWallToInstant(date: string) {
+  const day = scheduleFor(date.slice(0, 10))
+  const minutes = Number(date.slice(11, 13)) * 60 + Number(date.slice(14, 16))
+  return day.open.getTime() + (minutes - (9 * 60 + 30)) * MINUTE_MS
+}
+
+function mockPredict(req: PredictRequest, scenario: MockScenario) {
+  const now = new Date()
+  const intervals: Record<string, Record<string, unknown>> = {}
+  const regimes: Record<string, "Peak" | "Trough" | null> = {}
+  req.intervals.forEach((interval, position) => {
+    const { regime, result } = mockInterval(req, interval, position, scenario, now)
+    intervals[interval] = result
+    regimes[interval] = regime
+  })
+
+  // Same rules as the consensus block in backend/api.py::predict
+  const consensusIvls = (req.consensus_intervals ?? req.intervals).filter((i) => i in intervals)
+  const valid = consensusIvls.filter((i) => regimes[i] && intervals[i].is_valid)
+  const peakCount = valid.filter((i) => regimes[i] === "Peak").length
+  const troughCount = valid.length - peakCount
+  const entries = valid.map((i) => intervals[i].entry as number)
+  const exits = valid.map((i) => intervals[i].exit_target as number)
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length
+
+  let consensus: Record<string, unknown>
+  if ((peakCount >= 2 || troughCount >= 2) && entries.length) {
+    const signal = peakCount >= troughCount ? "CALL" : "PUT"
+    const ref = intervals[consensusIvls[0]]
+    const avgEntry = mean(entries)
+    const tp = Math.round(mean(exits) * 100) / 100
+    const sl = Math.round((signal === "CALL" ? (ref.support as number) : (ref.resistance as number)) * 100) / 100
+    const risk = Math.max(signal === "CALL" ? avgEntry - sl : sl - avgEntry, 1e-6)
+    const reward = Math.max(signal === "CALL" ? tp - avgEntry : avgEntry - tp, 1e-6)
+    consensus = {
+      signal,
+      strike: Math.round(avgEntry),
+      avg_entry: avgEntry,
+      sl,
+      tp,
+      risk_reward: reward / risk,
+      agreeing: `${Math.max(peakCount, troughCount)}/${consensusIvls.length}`,
+      is_trade: true,
+    }
+  } else {
+    consensus = {
+      signal: "NO_TRADE",
+      reason: valid.length ? "Mixed signals across timeframes" : "No timeframe reached confidence threshold",
+      is_trade: false,
+    }
+  }
+
+  if (scenario === "missing_fields") {
+    // Optional fields go everywhere; required ones go from the first interval and the consensus
+    for (const result of Object.values(intervals)) {
+      delete result.projected_at
+      const prediction = result.prediction as Record<string, unknown>
+      delete prediction.estimated_index_offset
+      delete prediction.regime
+    }
+    const first = Object.values(intervals)[0]
+    if (first) delete first.latest_timestamp
+    delete consensus.is_trade
+  }
+
+  return { intervals, consensus }
+}
+
+// ---------------------------------------------------------------------------
+// /backtest
+// ---------------------------------------------------------------------------
+
+// Walks the synthetic bars with the exit rules of backend/backtester.py.
+// The "model" calls the reversal of each confirmed pivot with a seeded
+// confidence, so the numbers are stable for a given request.
+function mockBacktest(req: BacktestRequest, scenario: MockScenario) {
+  const bars = generateBars(req.symbol, req.interval, req.period, scenario, new Date())
+  if (bars.length < 100) return { error: "Insufficient data for backtest", bars: bars.length }
+
+  const { peaks, troughs } = findPivots(bars)
+  const pivots = orderPivots(peaks, troughs)
+  const atr = atrSeries(bars)
+  const seed = hash(`${req.symbol.toUpperCase()}|${scenario}|${req.interval}|backtest`)
+  const rr = req.tp_atr_mult / req.sl_atr_mult
+
+  const trades: Record<string, unknown>[] = []
+  const pnls: number[] = []
+  const confidences: number[] = []
+  const byReason = { tp: 0, sl: 0, timeout: 0 }
+  let skippedLowConfidence = 0
+  let skippedLowRr = 0
+  let skippedNoData = 0
+
+  for (let k = req.min_train_pivots + req.lookback; k < pivots.length - 1; k++) {
+    const confirmBar = pivots[k].i + PIVOT_ORDER
+    if (confirmBar + 2 >= bars.length) {
+      skippedNoData++
+      break
+    }
+    const spread = scenario === "no_trade" ? 0.05 : 0.2
+    const confidence = 0.55 + spread * Math.abs(noise(seed, k))
+    if (confidence < CONFIDENCE_THRESHOLD) {
+      skippedLowConfidence++
+      continue
+    }
+    const signal = pivots[k].type === "Trough" ? "Peak" : "Trough"
+    const entryBar = confirmBar + 1
+    const entry = bars[entryBar].Close
+    const atrVal = atr[confirmBar] || entry * 0.005
+    const long = signal === "Peak"
+    const tp = long ? entry + req.tp_atr_mult * atrVal : entry - req.tp_atr_mult * atrVal
+    const sl = long ? entry - req.sl_atr_mult * atrVal : entry + req.sl_atr_mult * atrVal
+    if (rr < MIN_RR_RATIO) {
+      skippedLowRr++
+      continue
+    }
+
+    let exitBar = -1
+    let exitPrice = 0
+    let exitReason: "tp" | "sl" | "timeout" = "timeout"
+    for (let b = entryBar + 1; b < Math.min(entryBar + req.max_holding_bars + 1, bars.length); b++) {
+      const { High: high, Low: low } = bars[b]
+      if (long ? low <= sl : high >= sl) {
+        ;[exitBar, exitPrice, exitReason] = [b, sl, "sl"]
+        break
+      }
+      if (long ? high >= tp : low <= tp) {
+        ;[exitBar, exitPrice, exitReason] = [b, tp, "tp"]
+        break
+      }
+    }
+    if (exitBar < 0) {
+      exitBar = Math.min(entryBar + req.max_holding_bars, bars.length - 1)
+      exitPrice = bars[exitBar].Close
+    }
+
+    const pnlPct = ((long ? exitPrice - entry : entry - exitPrice) / entry) * 100
+    pnls.push(pnlPct)
+    confidences.push(confidence)
+    byReason[exitReason]++
+    trades.push({
+      signal_type: signal,
+      confidence: round3(confidence),
+      entry_time: pandasTime(bars[entryBar].Date),
+      entry_price: Math.round(entry * 100) / 100,
+      tp: Math.round(tp * 100) / 100,
+      sl: Math.round(sl * 100) / 100,
+      exit_time: pandasTime(bars[exitBar].Date),
+      exit_price: Math.round(exitPrice * 100) / 100,
+      exit_reason: exitReason,
+      pnl_pct: round3(pnlPct),
+    })
+  }
+
+  const response: Record<string, unknown> = {
+    symbol: req.symbol,
+    interval: req.interval,
+    period: req.period,
+    total_bars: bars.length,
+    total_pivots: pivots.length,
+    skipped_low_confidence: skippedLowConfidence,
+    skipped_low_rr: skippedLowRr,
+    skipped_no_data: skippedNoData,
+    params: {
+      sl_atr_mult: req.sl_atr_mult,
+      tp_atr_mult: req.tp_atr_mult,
+      confidence_threshold: CONFIDENCE_THRESHOLD,
+      min_rr: MIN_RR_RATIO,
+    },
+    metrics: backtestMetrics(pnls, confidences, byReason),
+    trades,
+  }
+  if (scenario === "missing_fields") delete response.params
+  return response
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000
+
+// Same figures as backend/backtester.py::_compute_metrics
+function backtestMetrics(pnls: number[], confidences: number[], byReason: Record<string, number>) {
+  if (!pnls.length) return { total_trades: 0, note: "No trades met filters" }
+  const wins = pnls.filter((p) => p > 0)
+  const losses = pnls.filter((p) => p <= 0)
+  const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0)
+  const grossLoss = Math.abs(sum(losses))
+  let equity = 0
+  let peak = -Infinity
+  let maxDd = 0
+  for (const p of pnls) {
+    equity += p
+    peak = Math.max(peak, equity)
+    maxDd = Math.max(maxDd, peak - equity)
+  }
+  return {
+    total_trades: pnls.length,
+    win_rate: round3(wins.length / pnls.length),
+    avg_win_pct: wins.length ? round3(sum(wins) / wins.length) : 0,
+    avg_loss_pct: losses.length ? round3(sum(losses) / losses.length) : 0,
+    // JSON has no Infinity
+    profit_factor: grossLoss > 0 ? round3(sum(wins) / grossLoss) : null,
+    expectancy_pct: round3(sum(pnls) / pnls.length),
+    total_return_pct: round3(sum(pnls)),
+    max_drawdown_pct: round3(maxDd),
+    avg_confidence: round3(sum(confidences) / confidences.length),
+    by_exit_reason: byReason,
+  }
+}
@@ -0,0 +1,217 @@
+// Opt-in alerts for changes between consecutive /predict responses of a
+// symbol: a fresh CALL/PUT, a regime flip on any interval, or price crossing
+// the entry/SL/TP that was on screen. User-defined rules from lib/alert-rules
+// go out through the same channels. Delivered as a toast, a desktop
+// notification (when permitted) and a short tone. `enabled` is the master
+// switch for all of it; while it is off, rule hits still show as toasts.
+
+import { toast } from "@/hooks/use-toast"
+import type { PredictResponse } from "@/lib/api"
+import { describeRule, evaluateAlertRules, loadAlertRules, matchRule } from "@/lib/alert-rules"
+import { getDesktopBridge } from "@/lib/desktop"
+import { readStored, writeStored } from "@/lib/storage"
+
+export type SignalEventKind = "newSignal" | "regimeChange" | "levelCross"
+
+export type SymbolNotifyRules = Record<SignalEventKind, boolean>
+
+export type AlertKind = SignalEventKind | "rule"
+
+export interface NotificationSettings {
+  enabled: boolean
+  sound: boolean
+  quietHours: { enabled: boolean; start: string; end: string }
+  defaults: SymbolNotifyRules
+  symbols: Record<string, SymbolNotifyRules>
+}
+
+export interface SignalEvent {
+  kind: SignalEventKind
+  symbol: string
+  title: string
+  body: string
+}
+
+export interface AlertMessage {
+  kind: AlertKind
+  symbol: string
+  title: string
+  body: string
+}
+
+export const EVENT_LABELS: Record<SignalEventKind, string> = {
+  newSignal: "New CALL/PUT",
+  regimeChange: "Regime change",
+  levelCross: "Entry / SL / TP cross",
+}
+
+const STORAGE_KEY = "murli.notifications"
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  sound: true,
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  defaults: { newSignal: true, regimeChange: false, levelCross: true },
+  symbols: {},
+}
+
+export function loadNotificationSettings(): NotificationSettings {
+  const stored = readStored<Partial<NotificationSettings>>(STORAGE_KEY, {})
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...stored }
+}
+
+export function saveNotificationSettings(settings: NotificationSettings) {
+  writeStored(STORAGE_KEY, settings)
+}
+
+export function rulesFor(settings: NotificationSettings, symbol: string): SymbolNotifyRules {
+  return settings.symbols[symbol.toUpperCase()] ?? settings.defaults
+}
+
+function minutesOf(hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number)
+  return h * 60 + (m || 0)
+}
+
+// Quiet hours are in local time and may wrap past midnight (22:00–07:00)
+export function isQuietTime(settings: NotificationSettings, now = new Date()) {
+  const { enabled, start, end } = settings.quietHours
+  if (!enabled) return false
+  const t = now.getHours() * 60 + now.getMinutes()
+  const s = minutesOf(start)
+  const e = minutesOf(end)
+  return s <= e ? t >= s && t < e : t >= s || t < e
+}
+
+function crossed(before: number, after: number, level: number) {
+  return (before < level && after >= level) || (before > level && after <= level)
+}
+
+export function detectEvents(symbol: string, prev: PredictResponse, next: PredictResponse): SignalEvent[] {
+  const events: SignalEvent[] = []
+  const sym = symbol.toUpperCase()
+  const { consensus } = next
+
+  if (consensus.is_trade && (!prev.consensus.is_trade || prev.consensus.signal !== consensus.signal)) {
+    events.push({
+      kind: "newSignal",
+      symbol: sym,
+      title: `${sym}: ${consensus.signal} signal`,
+      body: `Entry $${consensus.avg_entry.toFixed(2)} · SL $${consensus.sl.toFixed(2)} · TP $${consensus.tp.toFixed(2)} · ${consensus.agreeing} agree`,
+    })
+  }
+
+  for (const [interval, result] of Object.entries(next.intervals)) {
+    const before = prev.intervals[interval]?.prediction.regime
+    const after = result.prediction.regime
+    if (before && after && before !== "Unknown" && after !== "Unknown" && before !== after) {
+      events.push({ kind: "regimeChange", symbol: sym, title: `${sym} ${interval}: regime ${before} → ${after}`, body: "" })
+    }
+  }
+
+  const priceBefore = Object.values(prev.intervals)[0]?.latest_price
+  const priceAfter = Object.values(next.intervals)[0]?.latest_price
+  if (prev.consensus.is_trade && priceBefore != null && priceAfter != null) {
+    const levels: [string, number][] = [["entry", prev.consensus.avg_entry], ["SL", prev.consensus.sl], ["TP", prev.consensus.tp]]
+    for (const [label, level] of levels) {
+      if (crossed(priceBefore, priceAfter, level)) {
+        events.push({
+          kind: "levelCross",
+          symbol: sym,
+          title: `${sym} crossed ${label} $${level.toFixed(2)}`,
+          body: `Price moved from $${priceBefore.toFixed(2)} to $${priceAfter.toFixed(2)}`,
+        })
+      }
+    }
+  }
+  return events
+}
+
+let audioContext: AudioContext | null = null
+
+const TONES: Record<AlertKind, number> = { newSignal: 880, regimeChange: 660, levelCross: 520, rule: 740 }
+
+export function playTone(kind: AlertKind) {
+  if (typeof window === "undefined" || !window.AudioContext) return
+  audioContext ??= new AudioContext()
+  const osc = audioContext.createOscillator()
+  const gain = audioContext.createGain()
+  osc.frequency.value = TONES[kind]
+  gain.gain.setValueAtTime(0.15, audioContext.currentTime)
+  gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + 0.4)
+  osc.connect(gain).connect(audioContext.destination)
+  osc.start()
+  osc.stop(audioContext.currentTime + 0.4)
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | "unsupported"> {
+  // The desktop shell shows native notifications without a browser prompt
+  if (getDesktopBridge()) return "granted"
+  if (typeof Notification === "undefined") return "unsupported"
+  if (Notification.permission !== "default") return Notification.permission
+  return Notification.requestPermission()
+}
+
+// `toastOnly` keeps rule hits visible in the page while desktop alerts are off or muted
+export function deliver(event: AlertMessage, settings: NotificationSettings, toastOnly = false) {
+  toast({ title: event.title, description: event.body || undefined })
+  if (toastOnly) return
+  const desktop = getDesktopBridge()
+  if (desktop) {
+    desktop.notify({ title: event.title, body: event.body })
+  } else if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+    new Notification(event.title, { body: event.body, tag: `${event.symbol}:${event.kind}` })
+  }
+  if (settings.sound) playTone(event.kind)
+}
+
+// Last response seen per symbol this session. The dashboard and the watchlist
+// both poll, so comparing against whichever arrived last avoids double alerts.
+const lastSeen: Record<string, PredictResponse> = {}
+
+export function alertOnPrediction(symbol: string, data: PredictResponse) {
+  const sym = symbol.toUpperCase()
+  const prev = lastSeen[sym]
+  lastSeen[sym] = data
+
+  const settings = loadNotificationSettings()
+  const muted = !settings.enabled || isQuietTime(settings)
+  for (const hit of evaluateAlertRules(sym, prev, data)) {
+    deliver({ kind: "rule", symbol: sym, title: hit.label, body: hit.detail }, settings, muted)
+  }
+
+  if (!prev || muted) return
+  const rules = rulesFor(settings, sym)
+  for (const event of detectEvents(sym, prev, data)) {
+    if (rules[event.kind]) deliver(event, settings)
+  }
+}
+
+// Replay fires the same rules and events as live, as toasts only. Cooldowns
+// run on recorded time and are kept in memory, so the live rules' lastFiredAt
+// and the fired log are left untouched.
+const replayFiredAt: Record<string, number> = {}
+
+export function resetReplayAlerts() {
+  for (const id of Object.keys(replayFiredAt)) delete replayFiredAt[id]
+}
+
+export function alertOnReplay(symbol: string, prev: PredictResponse | undefined, data: PredictResponse, at: Date) {
+  const sym = symbol.toUpperCase()
+  const settings = loadNotificationSettings()
+  for (const rule of loadAlertRules()) {
+    if (!rule.enabled) continue
+    const last = replayFiredAt[rule.id]
+    if (last != null && at.getTime() - last < rule.cooldownMin * 60_000) continue
+    const detail = matchRule(rule, sym, prev, data)
+    if (!detail) continue
+    replayFiredAt[rule.id] = at.getTime()
+    deliver({ kind: "rule", symbol: sym, title: `Replay · ${describeRule(rule)}`, body: detail }, settings, true)
+  }
+
+  if (!prev || !settings.enabled) return
+  const rules = rulesFor(settings, sym)
+  for (const event of detectEvents(sym, prev, data)) {
+    if (rules[event.kind]) deliver({ ...event, title: `Replay · ${event.title}` }, settings, true)
+  }
+}
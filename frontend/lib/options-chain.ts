@@ -0,0 +1,183 @@
+// Options chains from pluggable providers, plus contract suggestions for the
+// consensus trade. The bundled provider reads fixtures from
+// public/fixtures/options/<SYMBOL>.json (or .csv) so the panel works offline.
+
+import { z } from "zod"
+import type { PredictResponse } from "@/lib/api"
+
+export const OptionContractSchema = z.object({
+  contract: z.string(),
+  expiry: z.string(),
+  strike: z.number(),
+  type: z.enum(["call", "put"]),
+  bid: z.number(),
+  ask: z.number(),
+  iv: z.number(),
+  delta: z.number(),
+  open_interest: z.number().optional(),
+  volume: z.number().optional(),
+})
+
+export const OptionsChainSchema = z.object({
+  underlying: z.string(),
+  as_of: z.string(),
+  underlying_price: z.number(),
+  contracts: z.array(OptionContractSchema),
+})
+
+export type OptionContract = z.infer<typeof OptionContractSchema>
+export type OptionsChain = z.infer<typeof OptionsChainSchema>
+
+export interface OptionsProvider {
+  id: string
+  label: string
+  fetchChain: (symbol: string) => Promise<OptionsChain>
+}
+
+export class OptionsChainError extends Error {
+  constructor(public provider: string, message: string) {
+    super(message)
+    this.name = "OptionsChainError"
+  }
+}
+
+const FIXTURE_BASE = "/fixtures/options"
+
+const CSV_NUMERIC = new Set(["strike", "bid", "ask", "iv", "delta", "open_interest", "volume"])
+
+// Header row: contract,expiry,strike,type,bid,ask,iv,delta[,open_interest,volume].
+// A leading "# underlying,as_of,underlying_price" comment carries the chain metadata.
+export function parseChainCsv(text: string, symbol: string): OptionsChain {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean)
+  let meta = { underlying: symbol, as_of: "", underlying_price: NaN }
+  if (lines[0]?.startsWith("#")) {
+    const [underlying, as_of, price] = lines.shift()!.slice(1).split(",").map((s) => s.trim())
+    meta = { underlying, as_of, underlying_price: Number(price) }
+  }
+  const [header, ...rows] = lines
+  const keys = (header ?? "").split(",").map((k) => k.trim())
+  const contracts = rows.map((row) => {
+    const cells = row.split(",")
+    return Object.fromEntries(keys.map((k, i) => [k, CSV_NUMERIC.has(k) ? Number(cells[i]) : cells[i]?.trim()]))
+  })
+  return { ...meta, contracts } as OptionsChain
+}
+
+function parseChain(provider: string, data: unknown): OptionsChain {
+  const parsed = OptionsChainSchema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new OptionsChainError(provider, `Malformed chain: ${issue.path.join(".") || "(root)"} ${issue.message}`)
+  }
+  return parsed.data
+}
+
+const WEEK_MS = 7 * 86_400_000
+
+function shiftDate(iso: string, ms: number) {
+  return new Date(new Date(`${iso.slice(0, 10)}T12:00:00Z`).getTime() + ms).toISOString().slice(0, 10)
+}
+
+// Fixtures are snapshots; moving them forward by whole weeks keeps expiries
+// in the future (and on the same weekday) so suggestions still line up.
+export function rebaseChain(chain: OptionsChain, now = new Date()): OptionsChain {
+  const weeks = Math.floor((now.getTime() - new Date(chain.as_of).getTime()) / WEEK_MS)
+  if (weeks <= 0) return chain
+  const ms = weeks * WEEK_MS
+  return {
+    ...chain,
+    as_of: new Date(new Date(chain.as_of).getTime() + ms).toISOString(),
+    contracts: chain.contracts.map((c) => {
+      const expiry = shiftDate(c.expiry, ms)
+      // OCC symbols embed the expiry as YYMMDD
+      const contract = c.contract.replace(/^([A-Z.]+)\d{6}([CP]\d{8})$/, `$1${expiry.slice(2).replace(/-/g, "")}$2`)
+      return { ...c, expiry, contract }
+    }),
+  }
+}
+
+export const fixtureProvider: OptionsProvider = {
+  id: "fixture",
+  label: "Local fixtures",
+  async fetchChain(symbol) {
+    const sym = symbol.toUpperCase()
+    const json = await fetch(`${FIXTURE_BASE}/${sym}.json`)
+    if (json.ok) return rebaseChain(parseChain(this.id, await json.json()))
+    const csv = await fetch(`${FIXTURE_BASE}/${sym}.csv`)
+    if (csv.ok) return rebaseChain(parseChain(this.id, parseChainCsv(await csv.text(), sym)))
+    throw new OptionsChainError(this.id, `No fixture for ${sym} in public${FIXTURE_BASE}`)
+  },
+}
+
+const providers: Record<string, OptionsProvider> = { [fixtureProvider.id]: fixtureProvider }
+
+export function registerOptionsProvider(provider: OptionsProvider) {
+  providers[provider.id] = provider
+}
+
+export function listOptionsProviders(): OptionsProvider[] {
+  return Object.values(providers)
+}
+
+export function getOptionsProvider(id: string): OptionsProvider {
+  return providers[id] ?? fixtureProvider
+}
+
+// ---------------------------------------------------------------------------
+// Suggestions
+// ---------------------------------------------------------------------------
+
+export interface TradePlan {
+  signal: "CALL" | "PUT"
+  entry: number
+  tp: number
+  // When the move to tp is expected; expiries before this are skipped
+  targetDate: Date | null
+}
+
+export interface ContractSuggestion {
+  contract: OptionContract
+  mid: number
+  valueAtTarget: number
+  returnAtTarget: number
+}
+
+// Latest projected pivot time across the valid intervals
+export function projectedTargetDate(data: PredictResponse): Date | null {
+  const times = Object.values(data.intervals)
+    .filter((r) => r.is_valid && r.projected_at)
+    .map((r) => new Date(r.projected_at!).getTime())
+    .filter((t) => !isNaN(t))
+  return times.length ? new Date(Math.max(...times)) : null
+}
+
+export function midPrice(c: OptionContract) {
+  return c.bid > 0 && c.ask > 0 ? (c.bid + c.ask) / 2 : c.ask || c.bid
+}
+
+// Ranks contracts by intrinsic value at tp against the ask, restricted to the
+// first two expiries on or after the target date and deltas a trader would
+// actually use for a directional move.
+export function suggestContracts(chain: OptionsChain, plan: TradePlan, limit = 3): ContractSuggestion[] {
+  const type = plan.signal === "CALL" ? "call" : "put"
+  const targetDay = plan.targetDate ? plan.targetDate.toISOString().slice(0, 10) : chain.as_of.slice(0, 10)
+  const expiries = Array.from(new Set(chain.contracts.map((c) => c.expiry)))
+    .filter((e) => e >= targetDay)
+    .sort()
+    .slice(0, 2)
+
+  return chain.contracts
+    .filter((c) => c.type === type && expiries.includes(c.expiry) && c.ask > 0 && Math.abs(c.delta) >= 0.2 && Math.abs(c.delta) <= 0.8)
+    .map((contract) => {
+      const valueAtTarget = type === "call" ? Math.max(plan.tp - contract.strike, 0) : Math.max(contract.strike - plan.tp, 0)
+      return {
+        contract,
+        mid: midPrice(contract),
+        valueAtTarget,
+        returnAtTarget: (valueAtTarget - contract.ask) / contract.ask,
+      }
+    })
+    .filter((s) => s.returnAtTarget > 0)
+    .sort((a, b) => b.returnAtTarget - a.returnAtTarget)
+    .slice(0, limit)
+}
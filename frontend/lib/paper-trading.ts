@@ -0,0 +1,183 @@
+// Simulated trades on the consensus signal. Accepting a CALL/PUT buys or
+// shorts the underlying at latest_price; every later /predict response for
+// the symbol walks the new bars and closes the trade at sl or tp (sl wins when
+// a bar touches both, as in backend/backtester.py). Trades live in localStorage.
+
+import { toast } from "@/hooks/use-toast"
+import type { PredictResponse } from "@/lib/api"
+import { isoBarTime } from "@/lib/forward-test"
+import { getMockScenario } from "@/lib/mock-backend"
+import { readStored, writeStored } from "@/lib/storage"
+
+export type PaperStatus = "open" | "tp" | "sl" | "manual"
+
+export interface PaperTrade {
+  id: string
+  symbol: string
+  side: "CALL" | "PUT"
+  quantity: number
+  openedAt: string
+  // Fill bar on `interval`; every bar after it decides exits
+  interval: string
+  asOf: string
+  entry: number
+  sl: number
+  tp: number
+  lastPrice: number
+  status: PaperStatus
+  exitPrice: number | null
+  exitTime: string | null
+}
+
+export interface PaperSummary {
+  open: number
+  closed: number
+  realized: number
+  unrealized: number
+  winRate: number | null
+}
+
+const TRADES_KEY = "murli.paperTrades"
+const QUANTITY_KEY = "murli.paperQuantity"
+// Fired on window whenever the stored trades change, so open views can reload
+export const PAPER_TRADES_EVENT = "murli:paper-trades"
+
+export function loadPaperTrades(): PaperTrade[] {
+  return readStored<PaperTrade[]>(TRADES_KEY, [])
+}
+
+export function savePaperTrades(trades: PaperTrade[]) {
+  writeStored(TRADES_KEY, trades)
+  if (typeof window !== "undefined") window.dispatchEvent(new Event(PAPER_TRADES_EVENT))
+}
+
+export function loadPaperQuantity() {
+  return readStored(QUANTITY_KEY, 100)
+}
+
+export function savePaperQuantity(quantity: number) {
+  writeStored(QUANTITY_KEY, quantity)
+}
+
+export function paperPnl(t: PaperTrade, price = t.exitPrice ?? t.lastPrice) {
+  return (t.side === "CALL" ? price - t.entry : t.entry - price) * t.quantity
+}
+
+// First interval that carries a latest bar; matches what the journal grades on
+function referenceInterval(data: PredictResponse) {
+  return Object.entries(data.intervals).find(([, r]) => r.latest_timestamp && r.latest_price != null)
+}
+
+// Why the response can't be filled, or null when it can
+export function paperFillError(data: PredictResponse, quantity: number): string | null {
+  if (getMockScenario()) return "Paper trading is off while the mock backend serves synthetic data."
+  if (quantity <= 0) return "Quantity must be at least 1."
+  if (!data.consensus.is_trade) return "There is no trade signal to fill."
+  const ref = referenceInterval(data)
+  if (!ref) return "The response has no latest price to fill at."
+  const price = ref[1].latest_price!
+  const { signal, sl, tp } = data.consensus
+  const long = signal === "CALL"
+  if (long ? price <= sl : price >= sl) return `Price $${price.toFixed(2)} is already through the stop at $${sl.toFixed(2)}.`
+  if (long ? price >= tp : price <= tp) return `Price $${price.toFixed(2)} has already reached the target at $${tp.toFixed(2)}.`
+  return null
+}
+
+export function openPaperTrade(symbol: string, data: PredictResponse, quantity: number): PaperTrade | null {
+  const ref = referenceInterval(data)
+  if (!data.consensus.is_trade || !ref || paperFillError(data, quantity)) return null
+  const [interval, result] = ref
+  const { signal, sl, tp } = data.consensus
+  const trade: PaperTrade = {
+    id: `paper-${Date.now()}`,
+    symbol: symbol.toUpperCase(),
+    side: signal,
+    quantity,
+    openedAt: new Date().toISOString(),
+    interval,
+    asOf: isoBarTime(result.latest_timestamp!),
+    entry: result.latest_price!,
+    sl,
+    tp,
+    lastPrice: result.latest_price!,
+    status: "open",
+    exitPrice: null,
+    exitTime: null,
+  }
+  savePaperTrades([...loadPaperTrades(), trade])
+  return trade
+}
+
+// Re-walks every bar after the fill, like gradeSignal: the newest bar is
+// usually still forming, so asOf can't advance past it without missing a
+// later touch of SL or TP inside that bar
+function markTrade(t: PaperTrade, data: PredictResponse): PaperTrade {
+  const result = data.intervals[t.interval]
+  if (!result) return t
+  const asOf = isoBarTime(t.asOf)
+  const bars = result.ohlcv.filter((b) => b.Date > asOf)
+  const long = t.side === "CALL"
+  for (const { Date: time, High, Low } of bars) {
+    if (long ? Low <= t.sl : High >= t.sl) return { ...t, status: "sl", exitPrice: t.sl, exitTime: time, lastPrice: t.sl }
+    if (long ? High >= t.tp : Low <= t.tp) return { ...t, status: "tp", exitPrice: t.tp, exitTime: time, lastPrice: t.tp }
+  }
+  return { ...t, lastPrice: result.latest_price ?? t.lastPrice }
+}
+
+// Marks the symbol's open trades to the response and returns the ones it closed
+export function markPaperTrades(symbol: string, data: PredictResponse): PaperTrade[] {
+  // Synthetic bars would close real paper trades
+  if (getMockScenario()) return []
+  const sym = symbol.toUpperCase()
+  const trades = loadPaperTrades()
+  if (!trades.some((t) => t.symbol === sym && t.status === "open")) return []
+  const next = trades.map((t) => (t.symbol === sym && t.status === "open" ? markTrade(t, data) : t))
+  savePaperTrades(next)
+  return next.filter((t, i) => t.status !== "open" && trades[i].status === "open")
+}
+
+export function announcePaperExits(closed: PaperTrade[]) {
+  for (const t of closed) {
+    const pnl = paperPnl(t)
+    toast({
+      title: `${t.symbol} paper trade hit ${t.status.toUpperCase()}`,
+      description: `${pnl < 0 ? "−" : "+"}$${Math.abs(pnl).toFixed(2)} on ${t.quantity} at $${t.exitPrice?.toFixed(2)}`,
+    })
+  }
+}
+
+export function closePaperTrade(id: string, price?: number) {
+  savePaperTrades(loadPaperTrades().map((t) => (t.id === id && t.status === "open"
+    ? { ...t, status: "manual", exitPrice: price ?? t.lastPrice, exitTime: new Date().toISOString() }
+    : t)))
+}
+
+export function clearPaperTrades() {
+  savePaperTrades([])
+}
+
+export function summarizePaperTrades(trades: PaperTrade[]): PaperSummary {
+  const open = trades.filter((t) => t.status === "open")
+  const closed = trades.filter((t) => t.status !== "open")
+  return {
+    open: open.length,
+    closed: closed.length,
+    realized: closed.reduce((sum, t) => sum + paperPnl(t), 0),
+    unrealized: open.reduce((sum, t) => sum + paperPnl(t), 0),
+    winRate: closed.length ? closed.filter((t) => paperPnl(t) > 0).length / closed.length : null,
+  }
+}
+
+const CSV_COLUMNS: (keyof PaperTrade)[] = [
+  "id", "symbol", "side", "quantity", "openedAt", "entry", "sl", "tp", "status", "exitPrice", "exitTime", "lastPrice",
+]
+
+function csvCell(v: unknown) {
+  const s = v == null ? "" : String(v)
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function paperTradesToCsv(trades: PaperTrade[]) {
+  const rows = trades.map((t) => [...CSV_COLUMNS.map((k) => csvCell(t[k])), paperPnl(t).toFixed(2)].join(","))
+  return [[...CSV_COLUMNS, "pnl"].join(","), ...rows].join("\n")
+}
@@ -0,0 +1,42 @@
+import type { IntervalResult, Pivot } from "@/lib/api"
+import { toTime } from "@/lib/chart-traces"
+
+// The backend's `waves` when it sends them. Older backends (and sessions
+// recorded against them) only have peak/trough indices, so metrics are
+// rebuilt from closes inside the window; those have no confidence, and the
+// first pivot in the window has no previous one to measure from.
+export function pivotsFor(data: Partial<IntervalResult>): Pivot[] {
+  if (data.waves) return data.waves
+  const bars = data.ohlcv ?? []
+  const marked = [
+    ...(data.peaks ?? []).map((index) => ({ index, type: "Peak" as const })),
+    ...(data.troughs ?? []).map((index) => ({ index, type: "Trough" as const })),
+  ].filter(({ index }) => bars[index]).sort((a, b) => a.index - b.index)
+
+  return marked.map(({ index, type }, k) => {
+    const value = bars[index].Close
+    const prev = k ? marked[k - 1] : null
+    const prevValue = prev ? bars[prev.index].Close : null
+    return {
+      index,
+      time: bars[index].Date,
+      type,
+      value,
+      height: prevValue != null ? Math.abs(value - prevValue) : null,
+      duration_bars: prev ? index - prev.index : null,
+      pct_move: prevValue ? ((value - prevValue) / prevValue) * 100 : null,
+      confidence: null,
+      prev_time: prev ? bars[prev.index].Date : null,
+    }
+  })
+}
+
+export function pivotElapsed(pivot: Pivot) {
+  const ms = toTime(pivot.time) - toTime(pivot.prev_time)
+  if (isNaN(ms) || ms < 0) return null
+  const minutes = Math.round(ms / 60_000)
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  if (days) return `${days}d ${hours}h`
+  return hours ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
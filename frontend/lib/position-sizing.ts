@@ -0,0 +1,95 @@
+// Fixed-fractional position sizing from the consensus entry/SL/TP, capped by
+// what the account can pay for. Options are approximated with a constant
+// delta; the premium caps the loss per contract.
+
+import { readStored, writeStored } from "@/lib/storage"
+
+export type Instrument = "shares" | "options"
+
+export interface SizingInputs {
+  accountSize: number
+  riskPct: number
+  instrument: Instrument
+  multiplier: number
+  premium: number
+  delta: number
+  commission: number
+}
+
+export interface SizingLevels {
+  signal: "CALL" | "PUT"
+  entry: number
+  sl: number
+  tp: number
+  strike: number
+}
+
+export interface SizingResult {
+  quantity: number
+  riskPerUnit: number
+  rewardPerUnit: number
+  dollarRisk: number
+  dollarReward: number
+  capital: number
+  breakeven: number
+  riskBudget: number
+  // The risk budget allowed more than the account can pay for
+  cappedByCapital: boolean
+}
+
+const STORAGE_KEY = "murli.sizing"
+
+export const DEFAULT_SIZING: SizingInputs = {
+  accountSize: 25000,
+  riskPct: 1,
+  instrument: "shares",
+  multiplier: 100,
+  premium: 2,
+  delta: 0.5,
+  commission: 0,
+}
+
+export function loadSizingInputs(): SizingInputs {
+  return { ...DEFAULT_SIZING, ...readStored<Partial<SizingInputs>>(STORAGE_KEY, {}) }
+}
+
+export function saveSizingInputs(inputs: SizingInputs) {
+  writeStored(STORAGE_KEY, inputs)
+}
+
+// Returns null when the levels leave no risk to size against
+export function computePositionSize(inputs: SizingInputs, levels: SizingLevels): SizingResult | null {
+  const { accountSize, riskPct, instrument, multiplier, premium, delta, commission } = inputs
+  const stopDistance = Math.abs(levels.entry - levels.sl)
+  const targetDistance = Math.abs(levels.tp - levels.entry)
+  const riskBudget = accountSize * (riskPct / 100)
+
+  const isOptions = instrument === "options"
+  const riskPerUnit = isOptions ? Math.min(premium, delta * stopDistance) * multiplier : stopDistance
+  const rewardPerUnit = isOptions ? delta * targetDistance * multiplier : targetDistance
+  // Round-trip commission is charged per share or per contract
+  const costPerUnit = 2 * commission
+  if (riskPerUnit + costPerUnit <= 0 || riskBudget <= 0) return null
+
+  const byRisk = Math.max(Math.floor(riskBudget / (riskPerUnit + costPerUnit)), 0)
+  // Opening a unit costs its price plus one side of commission
+  const outlayPerUnit = (isOptions ? premium * multiplier : levels.entry) + commission
+  const byCapital = outlayPerUnit > 0 ? Math.max(Math.floor(accountSize / outlayPerUnit), 0) : Infinity
+  const quantity = Math.min(byRisk, byCapital)
+  const direction = levels.signal === "CALL" ? 1 : -1
+  const breakeven = isOptions
+    ? levels.strike + direction * (premium + costPerUnit / multiplier)
+    : levels.entry + direction * costPerUnit
+
+  return {
+    quantity,
+    riskPerUnit,
+    rewardPerUnit,
+    dollarRisk: quantity * (riskPerUnit + costPerUnit),
+    dollarReward: quantity * (rewardPerUnit - costPerUnit),
+    capital: quantity * (isOptions ? premium * multiplier : levels.entry),
+    breakeven,
+    riskBudget,
+    cappedByCapital: byCapital < byRisk,
+  }
+}
@@ -0,0 +1,147 @@
+// Client for the backend's /stream server-sent events. The first event is a
+// full /predict payload; later ones carry only the intervals that changed and
+// the bars from the last one already sent. Failed connections back off and,
+// after a few in a row, report "fallback" so callers resume polling while the
+// stream keeps retrying in the background. A run of predict errors or bad
+// payloads on an open connection falls back the same way.
+
+import { z } from "zod"
+import {
+  ConsensusSchema,
+  IntervalResultSchema,
+  OhlcvBarSchema,
+  PredictResponseSchema,
+  type PredictRequest,
+  type PredictResponse,
+} from "@/lib/api"
+import { getApiBase } from "@/lib/backend-config"
+import { backoffDelay } from "@/lib/retry"
+
+export type StreamStatus = "connecting" | "live" | "fallback"
+
+export const IntervalDeltaSchema = IntervalResultSchema.omit({ ohlcv: true }).extend({
+  bars: z.array(OhlcvBarSchema),
+  window_start: z.string().nullable(),
+})
+
+export const StreamUpdateSchema = z.object({
+  intervals: z.record(IntervalDeltaSchema),
+  consensus: ConsensusSchema,
+})
+
+export type IntervalDelta = z.infer<typeof IntervalDeltaSchema>
+export type StreamUpdate = z.infer<typeof StreamUpdateSchema>
+
+// Consecutive failed connections (or errored events) before callers should fall back to polling
+const FALLBACK_AFTER_FAILURES = 3
+const MAX_RECONNECT_MS = 5 * 60_000
+const SERVER_POLL_S = 15
+
+export function streamUrl(req: PredictRequest, pollSeconds = SERVER_POLL_S) {
+  const params = new URLSearchParams({
+    symbol: req.symbol,
+    intervals: req.intervals.join(","),
+    periods: Object.entries(req.period_map).map(([ivl, period]) => `${ivl}:${period}`).join(","),
+    poll: String(pollSeconds),
+  })
+  if (req.consensus_intervals) params.set("consensus", req.consensus_intervals.join(","))
+  return `${getApiBase()}/stream?${params}`
+}
+
+// Replaces re-sent bars by timestamp, appends new ones and drops bars that
+// scrolled out of the server's window, so peak/trough indices still line up.
+export function applyStreamUpdate(prev: PredictResponse, update: StreamUpdate): PredictResponse {
+  const intervals = { ...prev.intervals }
+  for (const [ivl, { bars, window_start, ...rest }] of Object.entries(update.intervals)) {
+    const kept = (intervals[ivl]?.ohlcv ?? []).filter((b) =>
+      (!window_start || b.Date >= window_start) && !bars.some((n) => n.Date === b.Date))
+    const ohlcv = [...kept, ...bars].sort((a, b) => a.Date.localeCompare(b.Date))
+    intervals[ivl] = { ...rest, ohlcv }
+  }
+  return { intervals, consensus: update.consensus }
+}
+
+interface StreamHandlers {
+  onData: (data: PredictResponse) => void
+  onStatus: (status: StreamStatus) => void
+  onError?: (detail: string) => void
+}
+
+export function subscribePredict(req: PredictRequest, { onData, onStatus, onError }: StreamHandlers): () => void {
+  let source: EventSource | null = null
+  let current: PredictResponse | null = null
+  let failures = 0
+  let errors = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let closed = false
+
+  const fail = (detail: string) => {
+    errors += 1
+    onError?.(detail)
+    if (errors >= FALLBACK_AFTER_FAILURES) onStatus("fallback")
+  }
+
+  // EventSource retries on its own only for some failures; always take over so backoff is ours
+  const reconnect = () => {
+    source?.close()
+    source = null
+    failures += 1
+    // A fresh snapshot is needed after reconnecting; deltas would be relative to a lost state
+    current = null
+    if (failures >= FALLBACK_AFTER_FAILURES) onStatus("fallback")
+    timer = setTimeout(connect, backoffDelay(failures, 2000, MAX_RECONNECT_MS))
+  }
+
+  // A dropped event leaves later deltas without their base, so start over from a snapshot
+  const receive = <T extends z.ZodTypeAny>(schema: T, raw: string, apply: (value: z.infer<T>) => void) => {
+    let parsed: z.SafeParseReturnType<unknown, z.infer<T>>
+    try {
+      parsed = schema.safeParse(JSON.parse(raw))
+    } catch {
+      fail("Malformed /stream event: not JSON")
+      reconnect()
+      return
+    }
+    if (!parsed.success) {
+      fail(`Unexpected /stream payload: ${parsed.error.issues[0]?.message}`)
+      reconnect()
+      return
+    }
+    failures = 0
+    errors = 0
+    onStatus("live")
+    apply(parsed.data)
+  }
+
+  const connect = () => {
+    if (closed) return
+    onStatus(failures >= FALLBACK_AFTER_FAILURES ? "fallback" : "connecting")
+    source = new EventSource(streamUrl(req))
+    source.addEventListener("snapshot", (e) => receive(PredictResponseSchema, (e as MessageEvent).data, (data) => {
+      current = data
+      onData(data)
+    }))
+    source.addEventListener("update", (e) => receive(StreamUpdateSchema, (e as MessageEvent).data, (update) => {
+      if (!current) return
+      current = applyStreamUpdate(current, update)
+      onData(current)
+    }))
+    source.addEventListener("predict_error", (e) => {
+      let detail: unknown
+      try {
+        detail = JSON.parse((e as MessageEvent).data)?.detail
+      } catch {
+        // Malformed error payload; still counts as a failed prediction
+      }
+      fail(typeof detail === "string" ? detail : "Prediction failed on the server")
+    })
+    source.onerror = reconnect
+  }
+
+  connect()
+  return () => {
+    closed = true
+    if (timer) clearTimeout(timer)
+    source?.close()
+  }
+}
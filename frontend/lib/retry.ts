@@ -0,0 +1,5 @@
+// Exponential backoff with jitter: 5s, 10s, 20s, … capped at maxMs.
+export function backoffDelay(attempt: number, baseMs = 5000, maxMs = 60000) {
+  const delay = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1))
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
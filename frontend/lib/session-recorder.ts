@@ -0,0 +1,125 @@
+// Records every /predict response the dashboard applies during a live session
+// so it can be replayed later. Session metadata (with the frame timestamps,
+// which replay needs for pacing) lives in "sessions"; the payloads live in
+// "frames" keyed by [sessionId, seq] so a single frame loads without the rest.
+
+import { z } from "zod"
+import { PredictResponseSchema, type PredictResponse } from "@/lib/api"
+import { openDb, promisify, withStore } from "@/lib/idb"
+
+const SESSIONS = "sessions"
+const FRAMES = "frames"
+const EXPORT_VERSION = 1
+
+export interface RecordingSession {
+  id: string
+  symbol: string
+  startedAt: string
+  endedAt: string | null
+  // Recorded time of each frame, indexed by seq
+  times: string[]
+}
+
+export interface RecordedFrame {
+  sessionId: string
+  seq: number
+  at: string
+  symbol: string
+  data: PredictResponse
+}
+
+const SessionFileSchema = z.object({
+  version: z.literal(EXPORT_VERSION),
+  session: z.object({
+    id: z.string(),
+    symbol: z.string(),
+    startedAt: z.string(),
+    endedAt: z.string().nullable(),
+    times: z.array(z.string()),
+  }),
+  frames: z.array(z.object({ at: z.string(), symbol: z.string(), data: PredictResponseSchema })),
+})
+
+export async function startRecording(symbol: string): Promise<RecordingSession> {
+  const startedAt = new Date().toISOString()
+  const session: RecordingSession = { id: `${symbol.toUpperCase()}-${startedAt}`, symbol: symbol.toUpperCase(), startedAt, endedAt: null, times: [] }
+  await withStore(SESSIONS, "readwrite", (s) => s.put(session))
+  return session
+}
+
+// Returns the updated session; callers keep it and pass it back for the next frame
+export async function appendFrame(session: RecordingSession, symbol: string, data: PredictResponse, at = new Date()): Promise<RecordingSession> {
+  const next = { ...session, times: [...session.times, at.toISOString()] }
+  const frame: RecordedFrame = { sessionId: session.id, seq: session.times.length, at: at.toISOString(), symbol: symbol.toUpperCase(), data }
+  const db = await openDb()
+  const tx = db.transaction([SESSIONS, FRAMES], "readwrite")
+  await Promise.all([promisify(tx.objectStore(FRAMES).put(frame)), promisify(tx.objectStore(SESSIONS).put(next))])
+  return next
+}
+
+export async function stopRecording(session: RecordingSession): Promise<RecordingSession> {
+  const next = { ...session, endedAt: new Date().toISOString() }
+  await withStore(SESSIONS, "readwrite", (s) => s.put(next))
+  return next
+}
+
+export async function listSessions(): Promise<RecordingSession[]> {
+  const sessions = await withStore<RecordingSession[]>(SESSIONS, "readonly", (s) => s.getAll())
+  return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
+
+export async function getFrame(sessionId: string, seq: number): Promise<RecordedFrame | null> {
+  return (await withStore<RecordedFrame | undefined>(FRAMES, "readonly", (s) => s.get([sessionId, seq]))) ?? null
+}
+
+function framesRange(sessionId: string) {
+  return IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity])
+}
+
+export async function deleteSession(sessionId: string) {
+  const db = await openDb()
+  const tx = db.transaction([SESSIONS, FRAMES], "readwrite")
+  await Promise.all([
+    promisify(tx.objectStore(FRAMES).delete(framesRange(sessionId))),
+    promisify(tx.objectStore(SESSIONS).delete(sessionId)),
+  ])
+}
+
+export async function exportSession(sessionId: string): Promise<string> {
+  const [session, frames] = await Promise.all([
+    withStore<RecordingSession | undefined>(SESSIONS, "readonly", (s) => s.get(sessionId)),
+    withStore<RecordedFrame[]>(FRAMES, "readonly", (s) => s.getAll(framesRange(sessionId))),
+  ])
+  if (!session) throw new Error(`No recorded session ${sessionId}`)
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    session,
+    frames: frames.map(({ at, symbol, data }) => ({ at, symbol, data })),
+  })
+}
+
+// Imports a file written by exportSession; an existing session with the same id is replaced
+export async function importSession(text: string): Promise<RecordingSession> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error("Not a MURLI session file (invalid JSON)")
+  }
+  const parsed = SessionFileSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Not a MURLI session file: ${issue.path.join(".") || "(root)"} ${issue.message}`)
+  }
+  const { session, frames } = parsed.data
+  const imported: RecordingSession = { ...session, times: frames.map((f) => f.at) }
+  await deleteSession(session.id)
+  const db = await openDb()
+  const tx = db.transaction([SESSIONS, FRAMES], "readwrite")
+  const frameStore = tx.objectStore(FRAMES)
+  await Promise.all([
+    promisify(tx.objectStore(SESSIONS).put(imported)),
+    ...frames.map((f, seq) => promisify(frameStore.put({ sessionId: session.id, seq, ...f }))),
+  ])
+  return imported
+}
@@ -0,0 +1,21 @@
+// Thin JSON wrapper over localStorage. Safe to call during SSR, where it
+// just returns the fallback.
+
+export function readStored<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw == null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function writeStored<T>(key: string, value: T) {
+  if (typeof window === "undefined") return
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value))
+  } catch {
+    // Quota exceeded or storage disabled — settings just won't persist
+  }
+}
@@ -0,0 +1,51 @@
+import type { PredictRequest } from "@/lib/api"
+import { readStored, writeStored } from "@/lib/storage"
+
+export interface TimeframeConfig {
+  interval: string
+  period: string
+  inConsensus: boolean
+}
+
+// Intervals fetch_market_data in backend/wave_detector.py can serve
+export const AVAILABLE_INTERVALS = ["15m", "30m", "1h", "2h", "4h", "1d"]
+
+export const DEFAULT_PERIODS: Record<string, string> = {
+  "15m": "5d",
+  "30m": "10d",
+  "1h": "15d",
+  "2h": "20d",
+  "4h": "30d",
+  "1d": "365d",
+}
+
+export const DEFAULT_TIMEFRAMES: TimeframeConfig[] = [
+  { interval: "1h", period: "15d", inConsensus: true },
+  { interval: "4h", period: "30d", inConsensus: true },
+]
+
+const STORAGE_KEY = "murli.timeframes"
+
+export function loadTimeframes(): TimeframeConfig[] {
+  const stored = readStored<TimeframeConfig[]>(STORAGE_KEY, DEFAULT_TIMEFRAMES)
+  return stored.length ? sortTimeframes(stored) : DEFAULT_TIMEFRAMES
+}
+
+export function saveTimeframes(timeframes: TimeframeConfig[]) {
+  writeStored(STORAGE_KEY, timeframes)
+}
+
+export function sortTimeframes(timeframes: TimeframeConfig[]) {
+  return [...timeframes].sort(
+    (a, b) => AVAILABLE_INTERVALS.indexOf(a.interval) - AVAILABLE_INTERVALS.indexOf(b.interval)
+  )
+}
+
+export function buildPredictRequest(symbol: string, timeframes: TimeframeConfig[]): PredictRequest {
+  return {
+    symbol,
+    intervals: timeframes.map((t) => t.interval),
+    period_map: Object.fromEntries(timeframes.map((t) => [t.interval, t.period])),
+    consensus_intervals: timeframes.filter((t) => t.inConsensus).map((t) => t.interval),
+  }
+}